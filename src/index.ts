@@ -7,10 +7,19 @@ import type { Context } from 'hono';
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import type { AppConfig } from './lib/config';
-import type { FaviconResult, OutputFormat } from './types';
-import { findFavicons, fetchBestFavicon } from './lib/favicon-finder';
+import type { FaviconResult, NormalizedTarget, OutputFormat, SiteDiscovery } from './types';
+import {
+  createFaviconCache,
+  findBestFaviconCached,
+  getSourceKey,
+  getVariantKey,
+} from './lib/favicon-cache';
+import type { CachedVariant, SourceLookup } from './lib/favicon-cache';
+import { createSingleFlight } from './lib/single-flight';
+import { discoverSite } from './lib/favicon-finder';
 import { processImage } from './lib/image-processor';
-import { queryParamsSchema } from './lib/validators';
+import { hasHttpScheme, normalizeTarget, queryParamsSchema } from './lib/validators';
+import { addressPolicy } from './lib/http-client';
 import {
   generateSuccessHeaders,
   generateDefaultHeaders,
@@ -24,6 +33,14 @@ import { resolveDomainMapping } from './lib/domain-mappings';
 
 export function createApp(config: AppConfig) {
   const app = new Hono();
+  const cache = createFaviconCache(config);
+  // Concurrent requests for the same target share one discovery, whatever their ranking
+  // options, one lookup per set of ranking options, and one processing run per variant
+  const discoveryFlights = createSingleFlight<SiteDiscovery>();
+  const lookupFlights = createSingleFlight<SourceLookup>();
+  const variantFlights = createSingleFlight<CachedVariant>();
+  const discover = (url: string, discoveryConfig: AppConfig) =>
+    discoveryFlights(url, () => discoverSite(url, discoveryConfig));
 
   // CORS middleware
   app.use(
@@ -72,7 +89,7 @@ export function createApp(config: AppConfig) {
 
     // If there are query params but no URL, return fallback image
     try {
-      const schema = queryParamsSchema(config.BLOCK_PRIVATE_IPS);
+      const schema = queryParamsSchema(addressPolicy(config));
       const parseResult = schema.safeParse({
         url: undefined, // No URL provided
         response: c.req.query('response'),
@@ -112,12 +129,16 @@ export function createApp(config: AppConfig) {
       const urlParam = resolveDomainMapping(rawUrlParam);
 
       // Validate query parameters with Zod
-      const schema = queryParamsSchema(config.BLOCK_PRIVATE_IPS);
+      const schema = queryParamsSchema(addressPolicy(config));
       const parseResult = schema.safeParse({
         url: urlParam,
         response: c.req.query('response'),
         size: c.req.query('size'),
+        dpr: c.req.query('dpr'),
         format: c.req.query('format'),
+        purpose: c.req.query('purpose'),
+        theme: c.req.query('theme'),
+        variant: c.req.query('variant'),
         default: c.req.query('default'),
       });
 
@@ -129,66 +150,98 @@ export function createApp(config: AppConfig) {
         return c.json({ error: errorMessage }, 400, headers);
       }
 
-      const { url, response, size, format, default: defaultImage } = parseResult.data;
-
-      // Find favicons
-      const timeoutPromise = new Promise<null>((resolve) =>
-        setTimeout(() => resolve(null), config.REQUEST_TIMEOUT)
-      );
-      const faviconStart = Date.now();
-      const favicon = await Promise.race([
-        new Promise<{ data: Buffer; format: string; source: string; url: string } | null>(
-          // oxlint-disable-next-line no-async-promise-executor
-          async (resolve) => {
-            try {
-              const favicons = await findFavicons(url, config, size);
-              if (favicons == null || favicons.length === 0) {
-                resolve(null);
-              } else {
-                resolve(await fetchBestFavicon(favicons, config));
-              }
-            } catch {
-              resolve(null);
-            }
-          }
-        ),
-        timeoutPromise,
-      ]);
-
-      if (!favicon || !favicon.data) {
+      const {
+        url,
+        response,
+        size,
+        dpr,
+        format,
+        purpose,
+        theme,
+        variant,
+        default: defaultImage,
+      } = parseResult.data;
+
+      // The validated URL is already normalized, this adds the ASCII and Unicode host
+      const target = normalizeTarget(url) ?? undefined;
+
+      // Size in actual pixels, used for ranking and processing
+      const pixelSize = size ? Math.round(size * (dpr ?? 1)) : undefined;
+      const discoveryOptions = {
+        size: pixelSize,
+        purpose,
+        theme,
+        variant,
+        schemeImplied: !hasHttpScheme(urlParam),
+      };
+
+      // Reuse the processed image for this exact request when it's cached
+      const variantKey = getVariantKey(url, discoveryOptions, format);
+      let resolved = await cache?.getVariant(variantKey);
+      const cacheStatus = resolved ? 'HIT' : 'MISS';
+
+      if (!resolved) {
+        // Find favicons
+        const timeoutPromise = new Promise<null>((resolve) =>
+          setTimeout(() => resolve(null), config.REQUEST_TIMEOUT)
+        );
+        const faviconStart = Date.now();
+        const lookup = await Promise.race([
+          lookupFlights(getSourceKey(url, discoveryOptions), () =>
+            findBestFaviconCached(url, config, discoveryOptions, cache, discover)
+          ).catch(() => null),
+          timeoutPromise,
+        ]);
+        const favicon = lookup?.favicon;
+
+        if (!favicon || !favicon.data) {
+          logFaviconFetch({
+            url,
+            faviconUrl: favicon?.url,
+            source: favicon?.source,
+            scheme: lookup?.scheme,
+            response,
+            format: favicon?.format || format,
+            size,
+            success: false,
+            duration: Date.now() - faviconStart,
+            error: 'Failed to fetch favicon',
+            headers: requestHeaders,
+          });
+          return handleFallback(c, config, response, defaultImage, pixelSize, format, target);
+        }
+
+        // Log successful favicon fetch
         logFaviconFetch({
           url,
-          faviconUrl: favicon?.url,
-          source: favicon?.source,
+          faviconUrl: favicon.url,
           response,
-          format: favicon?.format || format,
           size,
-          success: false,
+          source: favicon.source,
+          scheme: lookup.scheme,
+          format: favicon.format,
+          success: true,
           duration: Date.now() - faviconStart,
-          error: 'Failed to fetch favicon',
           headers: requestHeaders,
         });
-        return handleFallback(c, config, response, defaultImage, size, format);
-      }
 
-      // Log successful favicon fetch
-      logFaviconFetch({
-        url,
-        faviconUrl: favicon.url,
-        response,
-        size,
-        source: favicon.source,
-        format: favicon.format,
-        success: true,
-        duration: Date.now() - faviconStart,
-        headers: requestHeaders,
-      });
+        // Process image if needed
+        resolved = await variantFlights(variantKey, async () => {
+          const processed = await processImage(favicon.data, {
+            size: pixelSize,
+            format,
+            theme,
+            maskColor: favicon.color,
+          });
+
+          const { data: _data, ...source } = favicon;
+          const variant = { ...lookup, favicon: source, image: processed };
+          await cache?.setVariant(variantKey, variant);
+          return variant;
+        });
+      }
 
-      // Process image if needed
-      const processed = await processImage(favicon.data, {
-        size,
-        format,
-      });
+      const { favicon, image: processed } = resolved;
 
       // Return response based on response type
       if (response === 'json') {
@@ -199,23 +252,45 @@ export function createApp(config: AppConfig) {
         if (size) {
           apiUrl.searchParams.set('size', size.toString());
         }
+        if (dpr) {
+          apiUrl.searchParams.set('dpr', dpr.toString());
+        }
         if (format) {
           apiUrl.searchParams.set('format', format);
         }
+        if (purpose) {
+          apiUrl.searchParams.set('purpose', purpose);
+        }
+        if (theme) {
+          apiUrl.searchParams.set('theme', theme);
+        }
+        if (variant) {
+          apiUrl.searchParams.set('variant', variant);
+        }
         // Don't include response=json since we want the image URL
 
         const result: FaviconResult = {
           url: apiUrl.toString(),
-          sourceUrl: favicon?.url || 'unknown',
+          sourceUrl: favicon.url || 'unknown',
           width: processed.width,
           height: processed.height,
           format: processed.format,
           bytes: processed.bytes,
           source: favicon.source,
+          reason: favicon.reason,
+          color: favicon.color,
+          tileColor: favicon.tileColor,
+          target,
+          host: resolved.host,
+          scheme: resolved.scheme,
+          redirects: {
+            page: resolved.pageRedirects,
+            favicon: favicon.redirectChain ?? [],
+          },
         };
 
         const headers = generateSuccessHeaders(config, processed.data);
-        return c.json(result, 200, headers);
+        return c.json(result, 200, { ...headers, 'X-Cache': cacheStatus });
       }
 
       // Return image
@@ -225,6 +300,7 @@ export function createApp(config: AppConfig) {
       return c.body(new Uint8Array(processed.data), 200, {
         ...headers,
         'Content-Type': contentType,
+        'X-Cache': cacheStatus,
       });
     } catch (error) {
       logger.error({ err: error }, 'Error processing request');
@@ -245,7 +321,8 @@ async function handleFallback(
   response: OutputFormat,
   defaultImage?: string,
   size?: number,
-  format?: 'png' | 'jpg' | 'jpeg' | 'ico' | 'webp' | 'svg'
+  format?: 'png' | 'jpg' | 'jpeg' | 'ico' | 'webp' | 'svg',
+  target?: NormalizedTarget
 ) {
   try {
     let buffer: Buffer;
@@ -299,10 +376,11 @@ async function handleFallback(
         format: imageFormat,
         bytes: buffer.length,
         source: 'default',
+        target,
       };
 
       const headers = generateDefaultHeaders(config);
-      return c.json(result, 200, headers);
+      return c.json(result, 200, { ...headers, 'X-Cache': 'MISS' });
     }
 
     const headers = generateDefaultHeaders(config);
@@ -310,6 +388,7 @@ async function handleFallback(
     return c.body(new Uint8Array(buffer), 200, {
       ...headers,
       'Content-Type': contentType,
+      'X-Cache': 'MISS',
     });
   } catch (error) {
     logger.error({ err: error }, 'Error fetching default image');
@@ -5,6 +5,7 @@
 
 import { Vemetric } from '@vemetric/node';
 import { createHash } from 'crypto';
+import { normalizeTarget } from './validators';
 
 let vemetricClient: Vemetric | null = null;
 
@@ -23,15 +24,10 @@ export function initVemetric(token?: string, host?: string): void {
 }
 
 /**
- * Extract domain from URL for user identification
+ * Extract the normalized (ASCII, lowercase) domain from a URL for user identification
  */
 function extractDomain(url: string): string {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    return urlObj.hostname;
-  } catch {
-    return 'unknown';
-  }
+  return normalizeTarget(url)?.host ?? 'unknown';
 }
 
 /**
@@ -0,0 +1,58 @@
+/**
+ * Windows tile icons from browserconfig.xml
+ * https://learn.microsoft.com/en-us/previous-versions/windows/internet-explorer/ie-developer/platform-apis/dn320426(v=vs.85)
+ */
+
+import * as cheerio from 'cheerio';
+import { parseIconColor } from './mask-icon';
+
+/**
+ * Tile image declared in browserconfig.xml
+ */
+export interface BrowserconfigTile {
+  src: string; // As declared, relative to the browserconfig URL
+  size: number;
+}
+
+export interface Browserconfig {
+  tiles: BrowserconfigTile[];
+  tileColor?: string;
+}
+
+/**
+ * Size of the legacy `<TileImage>`, which doesn't encode its size in the element name
+ */
+const TILE_IMAGE_SIZE = 144;
+
+/**
+ * Parse the square tile logos and tile color of a browserconfig.xml document
+ * Wide tiles are skipped, as they aren't icons
+ */
+export function parseBrowserconfig(xml: string): Browserconfig {
+  const $ = cheerio.load(xml, { xml: true });
+  const tiles: BrowserconfigTile[] = [];
+
+  $('tile')
+    .children()
+    .each((_, element) => {
+      const name = element.tagName.toLowerCase();
+      const src = $(element).attr('src')?.trim();
+      if (!src) return;
+
+      const match = /^square(\d+)x\1logo$/.exec(name);
+      const size = match?.[1] ? parseInt(match[1], 10) : name === 'tileimage' ? TILE_IMAGE_SIZE : 0;
+      if (size) {
+        tiles.push({ src, size });
+      }
+    });
+
+  const tileColor = parseIconColor(
+    $('tile')
+      .children()
+      .filter((_, element) => element.tagName.toLowerCase() === 'tilecolor')
+      .first()
+      .text()
+  );
+
+  return { tiles, tileColor };
+}
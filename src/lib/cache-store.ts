@@ -0,0 +1,43 @@
+/**
+ * Key-value stores behind the favicon cache
+ * The store is picked with CACHE_STORE: memory (per process), filesystem (shared
+ * directory, survives restarts) or redis (shared between instances)
+ */
+
+import type { AppConfig } from './config';
+import { createFileCacheStore } from './file-cache-store';
+import { createLruCache } from './lru-cache';
+import { createRedisCacheStore } from './redis-cache-store';
+
+export interface CacheStore {
+  get(key: string): Promise<Buffer | null>;
+  set(key: string, value: Buffer, ttl: number): Promise<void>; // ttl in ms
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Create the store configured with CACHE_STORE
+ */
+export function createCacheStore(config: AppConfig): CacheStore {
+  switch (config.CACHE_STORE) {
+    case 'filesystem':
+      return createFileCacheStore(config.CACHE_DIR, config.CACHE_MAX_BYTES);
+    case 'redis':
+      return createRedisCacheStore(config.REDIS_URL);
+    case 'memory':
+      return createMemoryCacheStore(config.CACHE_MAX_ENTRIES, config.CACHE_MAX_BYTES);
+  }
+}
+
+/**
+ * In-process store, an LRU bounded by entry count and total bytes
+ */
+export function createMemoryCacheStore(maxEntries: number, maxBytes: number): CacheStore {
+  const cache = createLruCache<Buffer>({ maxEntries, maxBytes });
+
+  return {
+    get: async (key) => cache.get(key) ?? null,
+    set: async (key, value, ttl) => cache.set(key, value, ttl, key.length * 2 + value.length),
+    delete: async (key) => cache.delete(key),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Light and dark icon variants
+ * Sites declare variants with `<link rel="icon" media="(prefers-color-scheme: dark)">`,
+ * and SVG icons can switch colors with `@media (prefers-color-scheme)` style rules
+ */
+
+import type { IconTheme } from '../types';
+
+/**
+ * Get the color scheme a link `media` query targets, if it targets one
+ */
+export function getMediaColorScheme(media: string | undefined): IconTheme | undefined {
+  const match = media?.match(/prefers-color-scheme\s*:\s*(light|dark)/i);
+  return match?.[1] ? (match[1].toLowerCase() as IconTheme) : undefined;
+}
+
+/**
+ * Resolve the `@media (prefers-color-scheme)` blocks of an SVG for a fixed theme
+ * Matching blocks are unwrapped so their rules always apply, the others are removed.
+ * Rasterizers don't evaluate these queries, so without this they always render the
+ * light styles. Other media queries are left alone.
+ */
+export function resolveSvgColorScheme(svg: string, theme: IconTheme): string {
+  let result = '';
+  let index = 0;
+
+  while (index < svg.length) {
+    const mediaStart = svg.toLowerCase().indexOf('@media', index);
+    if (mediaStart === -1) break;
+
+    const blockStart = svg.indexOf('{', mediaStart);
+    const blockEnd = blockStart === -1 ? -1 : findBlockEnd(svg, blockStart);
+    if (blockEnd === -1) break;
+
+    const scheme = getMediaColorScheme(svg.slice(mediaStart, blockStart));
+    if (!scheme) {
+      result += svg.slice(index, blockEnd + 1);
+    } else {
+      result += svg.slice(index, mediaStart);
+      if (scheme === theme) {
+        result += svg.slice(blockStart + 1, blockEnd);
+      }
+    }
+    index = blockEnd + 1;
+  }
+
+  return result + svg.slice(index);
+}
+
+/**
+ * Find the `}` that closes the block opened at blockStart, skipping nested blocks
+ */
+function findBlockEnd(css: string, blockStart: number): number {
+  let depth = 0;
+
+  for (let i = blockStart; i < css.length; i++) {
+    if (css[i] === '{') depth++;
+    else if (css[i] === '}' && --depth === 0) return i;
+  }
+
+  return -1;
+}
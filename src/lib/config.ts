@@ -4,6 +4,23 @@
  */
 
 import { z } from 'zod';
+import { DEFAULT_FALLBACK_PROVIDERS, parseFallbackProvider } from './fallback-providers';
+import type { FallbackProvider } from './fallback-providers';
+import { isValidCidr } from './ip-ranges';
+import { parsePlaceholderIcon } from './placeholder-icons';
+import type { PlaceholderIcon } from './placeholder-icons';
+
+// Comma-separated list of CIDR ranges (e.g. "10.1.0.0/16,fd00::/8")
+const cidrList = z
+  .string()
+  .default('')
+  .transform((val) =>
+    val
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+  )
+  .pipe(z.array(z.string().refine(isValidCidr, 'Invalid CIDR range')));
 
 // Zod schema for environment variables
 const envSchema = z.object({
@@ -22,9 +39,30 @@ const envSchema = z.object({
     .pipe(z.number().int().min(0)),
   CACHE_CONTROL_ERROR: z.string().default('604800').transform(Number).pipe(z.number().int().min(0)),
 
+  // Cache of discovery results and processed images
+  CACHE_ENABLED: z
+    .string()
+    .default('true')
+    .transform((val) => val !== 'false'),
+  CACHE_STORE: z.enum(['memory', 'filesystem', 'redis']).default('memory'),
+  CACHE_DIR: z.string().default('./.cache/favicons'), // filesystem store
+  REDIS_URL: z.string().url().default('redis://localhost:6379'), // redis store
+  // memory store limits, CACHE_MAX_BYTES also caps the filesystem store
+  CACHE_MAX_ENTRIES: z.string().default('1000').transform(Number).pipe(z.number().int().min(0)),
+  CACHE_MAX_BYTES: z.string().default('52428800').transform(Number).pipe(z.number().int().min(0)),
+  // TTLs in seconds, 0 disables the layer
+  CACHE_SOURCE_TTL: z.string().default('86400').transform(Number).pipe(z.number().int().min(0)),
+  CACHE_VARIANT_TTL: z.string().default('3600').transform(Number).pipe(z.number().int().min(0)),
+
   // Request handling
   REQUEST_TIMEOUT: z.string().default('5000').transform(Number).pipe(z.number().int().min(1000)),
   MAX_IMAGE_SIZE: z.string().default('5242880').transform(Number).pipe(z.number().int().min(1024)),
+  MAX_HTML_SIZE: z.string().default('2097152').transform(Number).pipe(z.number().int().min(1024)),
+  FETCH_CONCURRENCY: z
+    .string()
+    .default('4')
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(16)),
   USER_AGENT: z.string().default('FaviconAPI/1.0 (+https://vemetric.com/favicon-api)'),
 
   // CORS
@@ -35,6 +73,8 @@ const envSchema = z.object({
     .string()
     .default('true')
     .transform((val) => val !== 'false'),
+  ALLOWED_CIDRS: cidrList, // Exempt from BLOCK_PRIVATE_IPS
+  BLOCKED_CIDRS: cidrList, // Always blocked, in addition to BLOCK_PRIVATE_IPS
   MAX_REDIRECTS: z.string().default('5').transform(Number).pipe(z.number().int().min(0).max(20)),
 
   // Logging (Axiom integration - optional)
@@ -48,11 +88,75 @@ const envSchema = z.object({
   // Redirect URL for requests without domain (optional for self-hosters)
   REDIRECT_URL: z.string().url().optional(),
 
-  // Fallback API (Google's favicon API) - enabled by default
+  // Retry discovery over http:// when https:// can't connect (only for URLs without a scheme)
+  HTTP_FALLBACK: z
+    .string()
+    .default('true')
+    .transform((val) => val !== 'false'),
+
+  // Hosts to retry discovery on when a host has no usable icon (comma-separated, empty disables)
+  // www = www. variant of the registrable domain, apex = the registrable domain
+  HOST_FALLBACKS: z
+    .string()
+    .default('www,apex')
+    .transform((val) =>
+      val
+        .split(',')
+        .map((step) => step.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.enum(['www', 'apex']))),
+
+  // Fallback providers (Google's favicon API by default) - enabled by default
   USE_FALLBACK_API: z
     .string()
     .default('true')
     .transform((val) => val !== 'false'),
+  // Ordered fallback providers: comma-separated URL templates, each optionally followed by |timeoutMs
+  FALLBACK_PROVIDERS: z
+    .string()
+    .default(DEFAULT_FALLBACK_PROVIDERS)
+    .transform((val) =>
+      val
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    )
+    .pipe(
+      z.array(
+        z
+          .string()
+          .refine(
+            (entry) => parseFallbackProvider(entry) !== null,
+            'Invalid fallback provider, expected an http(s) URL template optionally followed by |timeoutMs'
+          )
+      )
+    )
+    .transform((entries) =>
+      entries.map((entry) => parseFallbackProvider(entry) as FallbackProvider)
+    ),
+
+  // Extra placeholder icons treated as misses: comma-separated name=hash entries (see placeholder-hash)
+  PLACEHOLDER_HASHES: z
+    .string()
+    .default('')
+    .transform((val) =>
+      val
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    )
+    .pipe(
+      z.array(
+        z
+          .string()
+          .refine(
+            (entry) => parsePlaceholderIcon(entry) !== null,
+            'Invalid placeholder hash, expected name=hash with a 16 character hex hash'
+          )
+      )
+    )
+    .transform((entries) => entries.map((entry) => parsePlaceholderIcon(entry) as PlaceholderIcon)),
 });
 
 // Infer the TypeScript type from the schema
@@ -69,18 +173,34 @@ export function loadConfig(): AppConfig {
       DEFAULT_IMAGE_URL: process.env.DEFAULT_IMAGE_URL,
       CACHE_CONTROL_SUCCESS: process.env.CACHE_CONTROL_SUCCESS,
       CACHE_CONTROL_ERROR: process.env.CACHE_CONTROL_ERROR,
+      CACHE_ENABLED: process.env.CACHE_ENABLED,
+      CACHE_STORE: process.env.CACHE_STORE,
+      CACHE_DIR: process.env.CACHE_DIR,
+      REDIS_URL: process.env.REDIS_URL,
+      CACHE_MAX_ENTRIES: process.env.CACHE_MAX_ENTRIES,
+      CACHE_MAX_BYTES: process.env.CACHE_MAX_BYTES,
+      CACHE_SOURCE_TTL: process.env.CACHE_SOURCE_TTL,
+      CACHE_VARIANT_TTL: process.env.CACHE_VARIANT_TTL,
       REQUEST_TIMEOUT: process.env.REQUEST_TIMEOUT,
       MAX_IMAGE_SIZE: process.env.MAX_IMAGE_SIZE,
+      MAX_HTML_SIZE: process.env.MAX_HTML_SIZE,
+      FETCH_CONCURRENCY: process.env.FETCH_CONCURRENCY,
       USER_AGENT: process.env.USER_AGENT,
       ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS,
       BLOCK_PRIVATE_IPS: process.env.BLOCK_PRIVATE_IPS,
+      ALLOWED_CIDRS: process.env.ALLOWED_CIDRS,
+      BLOCKED_CIDRS: process.env.BLOCKED_CIDRS,
       MAX_REDIRECTS: process.env.MAX_REDIRECTS,
       AXIOM_DATASET: process.env.AXIOM_DATASET,
       AXIOM_TOKEN: process.env.AXIOM_TOKEN,
       VEMETRIC_TOKEN: process.env.VEMETRIC_TOKEN,
       VEMETRIC_HOST: process.env.VEMETRIC_HOST,
       REDIRECT_URL: process.env.REDIRECT_URL,
+      HTTP_FALLBACK: process.env.HTTP_FALLBACK,
+      HOST_FALLBACKS: process.env.HOST_FALLBACKS,
       USE_FALLBACK_API: process.env.USE_FALLBACK_API,
+      FALLBACK_PROVIDERS: process.env.FALLBACK_PROVIDERS,
+      PLACEHOLDER_HASHES: process.env.PLACEHOLDER_HASHES,
     });
 
     // Note: Don't use logger here as it may not be initialized yet
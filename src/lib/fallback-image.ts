@@ -6,6 +6,7 @@
 import type { AppConfig } from './config';
 import { logger } from './logger';
 import { processImage } from './image-processor';
+import { readBody, safeFetch } from './http-client';
 
 interface CachedFallback {
   buffer: Buffer;
@@ -74,8 +75,7 @@ export async function initializeFallbackImage(config: AppConfig): Promise<void>
       throw new Error('Failed to fetch default image');
     }
 
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    const buffer = await readBody(response, config.MAX_IMAGE_SIZE);
     // Detect format from URL or assume PNG
     const format = fallbackUrl.endsWith('.svg') ? 'svg' : 'png';
 
@@ -140,7 +140,8 @@ export async function fetchCustomDefault(
   url: string,
   config: AppConfig
 ): Promise<{ buffer: Buffer; format: string; sourceUrl: string; width: number; height: number }> {
-  const response = await fetch(url, {
+  // The URL comes from the request, so it's subject to the same SSRF rules as favicons
+  const { response } = await safeFetch(url, config, {
     headers: { 'User-Agent': config.USER_AGENT },
     signal: AbortSignal.timeout(config.REQUEST_TIMEOUT),
   });
@@ -149,8 +150,7 @@ export async function fetchCustomDefault(
     throw new Error('Failed to fetch custom default image');
   }
 
-  const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
+  const buffer = await readBody(response, config.MAX_IMAGE_SIZE);
   // Detect format from URL or assume PNG
   const format = url.endsWith('.svg') ? 'svg' : 'png';
 
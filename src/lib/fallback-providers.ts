@@ -0,0 +1,81 @@
+/**
+ * Fallback favicon providers
+ * Third-party (or self-hosted) favicon services that are tried after the
+ * website's own sources, configured via FALLBACK_PROVIDERS
+ */
+
+import type { FaviconSource } from '../types';
+
+export interface FallbackProvider {
+  template: string; // URL template with {domain}, {origin} and {size} placeholders
+  timeout?: number; // Fetch timeout in ms, defaults to REQUEST_TIMEOUT
+}
+
+/**
+ * Google's favicon API, the default provider
+ */
+export const DEFAULT_FALLBACK_PROVIDERS =
+  'https://www.google.com/s2/favicons?domain={origin}&sz={size}';
+
+/**
+ * Size requested from providers when the request has no size
+ */
+const DEFAULT_PROVIDER_SIZE = 64;
+
+/**
+ * Parse a provider entry in the form `template` or `template|timeoutMs`
+ * Returns null if the template isn't a valid http(s) URL or the timeout isn't a positive integer
+ */
+export function parseFallbackProvider(entry: string): FallbackProvider | null {
+  const [template = '', timeoutPart, ...rest] = entry.trim().split('|');
+  if (rest.length > 0) return null;
+
+  try {
+    const example = new URL(fillTemplate(template, 'example.com', 'https://example.com', 64));
+    if (!['http:', 'https:'].includes(example.protocol)) return null;
+  } catch {
+    return null;
+  }
+
+  if (timeoutPart === undefined) {
+    return { template };
+  }
+
+  const timeout = Number(timeoutPart);
+  if (!Number.isInteger(timeout) || timeout <= 0) return null;
+
+  return { template, timeout };
+}
+
+/**
+ * Build the fallback candidates for a website, ranked in provider order below every other source
+ */
+export function getFallbackProviderCandidates(
+  targetUrl: URL,
+  providers: FallbackProvider[],
+  size?: number
+): FaviconSource[] {
+  return providers.map((provider, index) => {
+    const url = fillTemplate(
+      provider.template,
+      targetUrl.hostname,
+      targetUrl.origin,
+      size || DEFAULT_PROVIDER_SIZE
+    );
+
+    return {
+      url,
+      source: 'fallback-api',
+      score: 1 - index, // Lowest priority - try these last, in the configured order
+      reason: `fallback provider ${new URL(url).hostname}`,
+      timeout: provider.timeout,
+    };
+  });
+}
+
+function fillTemplate(template: string, domain: string, origin: string, size: number): string {
+  return template
+    .replaceAll('{domain}', encodeURIComponent(domain))
+    .replaceAll('{origin}', encodeURIComponent(origin))
+    .replaceAll('{size}', String(size));
+}
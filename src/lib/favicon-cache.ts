@@ -0,0 +1,238 @@
+/**
+ * Favicon cache
+ * Three layers: the icons a website declares (discoveries), the favicon that won
+ * ranking for a target and set of options with its original bytes (sources), and
+ * the processed image for a size/format (variants). A discovery hit skips fetching
+ * the page, a source hit skips fetching the icons as well, and a variant hit skips
+ * processing too.
+ */
+
+import type { AppConfig } from './config';
+import type {
+  DiscoveryOptions,
+  FetchedFavicon,
+  ImageProcessOptions,
+  ProcessedImage,
+  SiteDiscovery,
+} from '../types';
+import { createCacheStore } from './cache-store';
+import type { CacheStore } from './cache-store';
+import { discoverSite, findBestFavicon } from './favicon-finder';
+import { logger } from './logger';
+
+/**
+ * Favicon that won discovery, including its original bytes
+ */
+export interface CachedSource {
+  favicon: FetchedFavicon;
+  host: string; // Host the favicon came from, which may be a fallback host
+  scheme: 'http' | 'https';
+  pageRedirects: string[]; // Redirects followed to reach the HTML page
+}
+
+/**
+ * Processed image together with the source it was made from
+ */
+export interface CachedVariant extends Omit<CachedSource, 'favicon'> {
+  favicon: Omit<FetchedFavicon, 'data'>;
+  image: ProcessedImage;
+}
+
+/**
+ * Favicon found for a target, from the cache or from discovery
+ */
+export interface SourceLookup extends Omit<CachedSource, 'favicon'> {
+  favicon: FetchedFavicon | null;
+}
+
+export interface FaviconCache {
+  getDiscovery(url: string): Promise<SiteDiscovery | undefined>;
+  setDiscovery(url: string, site: SiteDiscovery): Promise<void>;
+  getSource(key: string): Promise<CachedSource | undefined>;
+  setSource(key: string, source: CachedSource): Promise<void>;
+  getVariant(key: string): Promise<CachedVariant | undefined>;
+  setVariant(key: string, variant: CachedVariant): Promise<void>;
+}
+
+/**
+ * Prefix of all store keys, bumped when the entry encoding changes so
+ * persistent stores don't serve entries written by older versions
+ */
+const KEY_PREFIX = 'favicon-api:v1:';
+
+/**
+ * Time a store call may take before it's treated as failed (ms)
+ */
+const STORE_TIMEOUT = 500;
+
+/**
+ * Create the favicon cache on the configured store, or null if CACHE_ENABLED is off
+ * Store errors and slow store calls are logged and treated as misses, so a store
+ * outage never fails or stalls requests
+ */
+export function createFaviconCache(config: AppConfig, store?: CacheStore): FaviconCache | null {
+  if (!config.CACHE_ENABLED) return null;
+  const cacheStore = store ?? createCacheStore(config);
+
+  const read = async (key: string) => {
+    try {
+      const entry = await withTimeout(cacheStore.get(KEY_PREFIX + key));
+      return entry ? decodeEntry(entry) : undefined;
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Failed to read from cache store');
+      return undefined;
+    }
+  };
+
+  const write = async (key: string, metadata: object, data: Buffer, ttl: number) => {
+    if (ttl <= 0) return;
+    try {
+      await withTimeout(cacheStore.set(KEY_PREFIX + key, encodeEntry(metadata, data), ttl * 1000));
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Failed to write to cache store');
+    }
+  };
+
+  return {
+    async getDiscovery(url) {
+      const entry = await read(`discovery:${url}`);
+      return entry?.metadata as SiteDiscovery | undefined;
+    },
+
+    async setDiscovery(url, site) {
+      await write(`discovery:${url}`, site, Buffer.alloc(0), config.CACHE_SOURCE_TTL);
+    },
+
+    async getSource(key) {
+      const entry = await read(`source:${key}`);
+      if (!entry) return undefined;
+
+      const { favicon, ...source } = entry.metadata as Omit<CachedVariant, 'image'>;
+      return { ...source, favicon: { ...favicon, data: entry.data } };
+    },
+
+    async setSource(key, source) {
+      const { data, ...favicon } = source.favicon;
+      await write(`source:${key}`, { ...source, favicon }, data, config.CACHE_SOURCE_TTL);
+    },
+
+    async getVariant(key) {
+      const entry = await read(`variant:${key}`);
+      if (!entry) return undefined;
+
+      const variant = entry.metadata as CachedVariant;
+      return { ...variant, image: { ...variant.image, data: entry.data } };
+    },
+
+    async setVariant(key, variant) {
+      const { data, ...image } = variant.image;
+      await write(`variant:${key}`, { ...variant, image }, data, config.CACHE_VARIANT_TTL);
+    },
+  };
+}
+
+/**
+ * Find the best favicon for a website, reusing the cached source when there is one
+ * Otherwise the websites are discovered through the cache, so other ranking options
+ * for the same target only fetch the icons again
+ */
+export async function findBestFaviconCached(
+  url: string,
+  config: AppConfig,
+  options: DiscoveryOptions,
+  cache: FaviconCache | null,
+  discover: typeof discoverSite = discoverSite
+): Promise<SourceLookup> {
+  const key = getSourceKey(url, options);
+  const cached = await cache?.getSource(key);
+  if (cached) {
+    return cached;
+  }
+
+  const cachedDiscover: typeof discoverSite = async (siteUrl, discoveryConfig) => {
+    const cachedSite = await cache?.getDiscovery(siteUrl);
+    if (cachedSite) {
+      return cachedSite;
+    }
+
+    const site = await discover(siteUrl, discoveryConfig);
+    // A website that couldn't be reached is retried on the next request
+    if (!site.connectionFailed) {
+      await cache?.setDiscovery(siteUrl, site);
+    }
+    return site;
+  };
+
+  const lookup = await findBestFavicon(url, config, options, cachedDiscover);
+  const result: SourceLookup = {
+    favicon: lookup.favicon,
+    host: lookup.host,
+    scheme: lookup.scheme,
+    pageRedirects: lookup.discovery.redirectChain,
+  };
+
+  if (lookup.favicon) {
+    await cache?.setSource(key, { ...result, favicon: lookup.favicon });
+  }
+
+  return result;
+}
+
+/**
+ * Cache key for the favicon chosen for a target
+ * Includes everything that changes how candidates are ranked
+ */
+export function getSourceKey(url: string, options: DiscoveryOptions): string {
+  return [
+    url,
+    options.size ?? '',
+    options.purpose ?? '',
+    options.theme ?? '',
+    options.variant ?? '',
+    options.schemeImplied ? 'implied' : '',
+  ].join('|');
+}
+
+/**
+ * Cache key for a processed image of the favicon chosen for a target
+ */
+export function getVariantKey(
+  url: string,
+  options: DiscoveryOptions,
+  format: ImageProcessOptions['format']
+): string {
+  return `${getSourceKey(url, options)}|${format ?? ''}`;
+}
+
+/**
+ * Reject if a store call doesn't settle within STORE_TIMEOUT
+ */
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Cache store did not respond within ${STORE_TIMEOUT}ms`)),
+      STORE_TIMEOUT
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Encode an entry as its JSON metadata, prefixed with the length, followed by its bytes
+ */
+function encodeEntry(metadata: object, data: Buffer): Buffer {
+  const json = Buffer.from(JSON.stringify(metadata));
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(json.length);
+  return Buffer.concat([length, json, data]);
+}
+
+function decodeEntry(entry: Buffer): { metadata: unknown; data: Buffer } {
+  const length = entry.readUInt32BE(0);
+  return {
+    metadata: JSON.parse(entry.subarray(4, 4 + length).toString()),
+    data: entry.subarray(4 + length),
+  };
+}
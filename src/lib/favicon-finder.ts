@@ -4,10 +4,32 @@
  */
 
 import * as cheerio from 'cheerio';
-import type { FaviconSource, WebManifest } from '../types';
+import type {
+  DiscoveredIcon,
+  DiscoveryOptions,
+  DiscoveryResult,
+  FaviconLookup,
+  FaviconSource,
+  FetchedFavicon,
+  IconPurpose,
+  IconTheme,
+  IconVariant,
+  ImageInspection,
+  SiteDiscovery,
+  WebManifest,
+} from '../types';
 import type { AppConfig } from './config';
-import { parseDataUrl, validateImage } from './image-processor';
-import { isDataUrl } from './validators';
+import { getMediaColorScheme } from './color-scheme';
+import { parseBrowserconfig } from './browserconfig';
+import { getFallbackProviderCandidates } from './fallback-providers';
+import { getFallbackHosts } from './host-fallback';
+import { computeImageHash, inspectImage, parseDataUrl, validateImage } from './image-processor';
+import { hasHttpScheme, isDataUrl, normalizeTarget, withDefaultScheme } from './validators';
+import { isConnectionError, readBody, safeFetch } from './http-client';
+import { readHtmlHead } from './html-head';
+import { logger } from './logger';
+import { parseIconColor } from './mask-icon';
+import { findPlaceholder } from './placeholder-icons';
 
 /**
  * Browser-like User-Agent for HTML parsing (sites often block bots for HTML)
@@ -16,24 +38,125 @@ import { isDataUrl } from './validators';
 const BROWSER_USER_AGENT =
   'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
 
+/**
+ * Share of REQUEST_TIMEOUT kept for the fallback providers while trying fallback hosts
+ */
+const PROVIDER_TIME_SHARE = 0.25;
+
+/**
+ * Find and fetch the best favicon for a website
+ * If https:// was only assumed and can't connect, discovery is retried over http://
+ * (HTTP_FALLBACK). If the host has no usable icon, discovery is retried on the
+ * HOST_FALLBACKS hosts before the favicon API candidates of the original host are tried.
+ * The fallback hosts only get the part of REQUEST_TIMEOUT that is left after keeping
+ * PROVIDER_TIME_SHARE of it for the favicon API, so slow hosts can't starve it.
+ * Websites are fetched through `discover`, which callers can replace to share
+ * discoveries between requests.
+ */
+export async function findBestFavicon(
+  url: string,
+  config: AppConfig,
+  options: DiscoveryOptions = {},
+  discover: typeof discoverSite = discoverSite
+): Promise<FaviconLookup> {
+  const target = normalizeTarget(url);
+  if (!target) {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  // Callers give up after REQUEST_TIMEOUT
+  const deadline = Date.now() + config.REQUEST_TIMEOUT;
+  const targetUrl = new URL(target.url);
+  let site = await discover(targetUrl.toString(), config);
+
+  const schemeImplied = options.schemeImplied ?? !hasHttpScheme(url);
+  if (config.HTTP_FALLBACK && schemeImplied && site.connectionFailed) {
+    logger.debug({ url }, 'HTTPS connection failed, retrying discovery over HTTP');
+
+    targetUrl.protocol = 'http:';
+    site = await discover(targetUrl.toString(), config);
+  }
+
+  const discovery = rankFavicons(site, config, options);
+
+  const scheme = targetUrl.protocol === 'http:' ? 'http' : 'https';
+  const siteFavicons = discovery.favicons.filter((f) => f.source !== 'fallback-api');
+  const apiFavicons = discovery.favicons.filter((f) => f.source === 'fallback-api');
+
+  const favicon = await fetchBestFavicon(siteFavicons, config, options);
+  if (favicon) {
+    return { discovery, favicon, host: targetUrl.hostname, scheme };
+  }
+
+  const providerTime =
+    apiFavicons.length > 0 ? Math.round(config.REQUEST_TIMEOUT * PROVIDER_TIME_SHARE) : 0;
+  const hostTimeLeft = () => Math.max(deadline - providerTime - Date.now(), 0);
+
+  for (const host of getFallbackHosts(targetUrl.hostname, config.HOST_FALLBACKS)) {
+    if (hostTimeLeft() === 0) {
+      logger.debug({ url, host }, 'No time left for fallback hosts');
+      break;
+    }
+
+    logger.debug({ url, host }, 'No usable favicon, retrying discovery on fallback host');
+
+    // Same scheme and port, only the host changes, discovered under the URL a direct
+    // request for the host would use so shared discoveries are reused
+    const fallbackUrl = new URL(targetUrl.origin);
+    fallbackUrl.hostname = host;
+
+    const fallbackDiscovery = rankFavicons(
+      await discover(fallbackUrl.toString(), { ...config, REQUEST_TIMEOUT: hostTimeLeft() }),
+      { ...config, USE_FALLBACK_API: false },
+      options
+    );
+    const fallbackFavicon = await fetchBestFavicon(
+      fallbackDiscovery.favicons,
+      { ...config, REQUEST_TIMEOUT: hostTimeLeft() },
+      options
+    );
+    if (fallbackFavicon) {
+      return { discovery: fallbackDiscovery, favicon: fallbackFavicon, host, scheme };
+    }
+  }
+
+  // Providers without their own timeout get what's left, but at least PROVIDER_TIME_SHARE
+  const providerConfig = {
+    ...config,
+    REQUEST_TIMEOUT: Math.max(deadline - Date.now(), providerTime),
+  };
+
+  return {
+    discovery,
+    favicon: await fetchBestFavicon(apiFavicons, providerConfig, options),
+    host: targetUrl.hostname,
+    scheme,
+  };
+}
+
 /**
  * Find all possible favicon URLs for a given website
  */
 export async function findFavicons(
   url: string,
   config: AppConfig,
-  size?: number
-): Promise<FaviconSource[]> {
-  const favicons: FaviconSource[] = [];
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryResult> {
+  return rankFavicons(await discoverSite(url, config), config, options);
+}
 
-  // Ensure URL has protocol
-  const targetUrl = url.startsWith('http') ? url : `https://${url}`;
+/**
+ * Fetch the page, manifest and browserconfig.xml of a website and collect the icons they declare
+ */
+export async function discoverSite(url: string, config: AppConfig): Promise<SiteDiscovery> {
+  // Ensure URL has protocol and a canonical host
+  const targetUrl = normalizeTarget(url)?.url ?? withDefaultScheme(url);
 
   // Parse base URL - we'll use this for fallbacks even if HTML fetch fails
   let baseUrl: string;
   try {
     const parsedUrl = new URL(targetUrl);
-    baseUrl = `${parsedUrl.protocol}//${parsedUrl.hostname}`;
+    baseUrl = parsedUrl.origin;
   } catch {
     // URL parsing failed - construct best-effort base URL from hostname
     const hostname = url.replace(/^https?:\/\//, '').split('/')[0];
@@ -41,186 +164,458 @@ export async function findFavicons(
   }
 
   // Fetch HTML and manifest in parallel so a hanging manifest
-  // doesn't block the overall pipeline
+  // doesn't block the overall pipeline. The well-known manifest names are
+  // probed on the original base URL right away, and only a manifest declared
+  // with <link rel="manifest"> has to wait for the HTML. The probes are
+  // cancelled as soon as the page turns out to declare one.
   const htmlTimeout = Math.round(config.REQUEST_TIMEOUT * 0.8);
   const manifestTimeout = Math.round(config.REQUEST_TIMEOUT * 0.4);
 
-  const htmlPromise = fetchHtml(targetUrl, config, htmlTimeout)
-    .then(({ html, finalUrl }) => {
-      const finalParsedUrl = new URL(finalUrl);
-      const finalBaseUrl = `${finalParsedUrl.protocol}//${finalParsedUrl.hostname}`;
-      const $ = cheerio.load(html);
+  const wellKnownManifestProbes = new AbortController();
+  const wellKnownManifestPromise = extractFromWellKnownManifests(
+    baseUrl,
+    config,
+    manifestTimeout,
+    wellKnownManifestProbes.signal
+  );
+
+  const htmlPromise = fetchDocument(targetUrl, config, htmlTimeout)
+    .then(({ $, finalUrl, redirectChain }) => {
+      const finalBaseUrl = new URL(finalUrl).origin;
+
+      // Relative hrefs resolve against <base href> if present, else the final document URL
+      const documentBaseUrl = getDocumentBaseUrl($, finalUrl);
 
-      // Extract favicons from HTML link tags
-      const linkTagFavicons = extractFromLinkTags($, finalBaseUrl);
+      // Extract favicons from HTML link tags, and tile/social images as a last resort
+      const linkTagFavicons = extractFromLinkTags($, documentBaseUrl);
+      const metaTagFavicons = extractFromMetaTags($, documentBaseUrl);
+      const manifestUrl = extractManifestUrl($, documentBaseUrl);
+      if (manifestUrl) {
+        wellKnownManifestProbes.abort();
+      }
+      const browserconfigUrl = extractBrowserconfigUrl($, documentBaseUrl);
 
       // Update baseUrl to final URL after redirects for fallbacks
       baseUrl = finalBaseUrl;
 
-      return linkTagFavicons;
+      return {
+        linkTagFavicons,
+        metaTagFavicons,
+        manifestUrl,
+        browserconfigUrl,
+        redirectChain,
+        connectionFailed: false,
+      };
     })
-    .catch(() => [] as FaviconSource[]);
+    .catch((error) => ({
+      linkTagFavicons: [] as DiscoveredIcon[],
+      metaTagFavicons: [] as DiscoveredIcon[],
+      manifestUrl: undefined,
+      browserconfigUrl: undefined,
+      redirectChain: [] as string[],
+      connectionFailed: isConnectionError(error),
+    }));
 
-  const manifestPromise = extractFromManifest(baseUrl, config, manifestTimeout);
+  const {
+    linkTagFavicons,
+    metaTagFavicons,
+    manifestUrl,
+    browserconfigUrl,
+    redirectChain,
+    connectionFailed,
+  } = await htmlPromise;
+  const [manifestFavicons, browserconfigFavicons] = await Promise.all([
+    manifestUrl
+      ? extractFromManifest(manifestUrl, config, manifestTimeout)
+      : wellKnownManifestPromise,
+    // Like the manifest, browserconfig.xml is probed at the root if the page doesn't declare it
+    browserconfigUrl === null
+      ? []
+      : extractFromBrowserconfig(
+          browserconfigUrl ?? `${baseUrl}/browserconfig.xml`,
+          config,
+          manifestTimeout
+        ),
+  ]);
 
-  const [linkTagFavicons, manifestFavicons] = await Promise.all([htmlPromise, manifestPromise]);
+  return {
+    url: targetUrl,
+    icons: [...linkTagFavicons, ...manifestFavicons, ...browserconfigFavicons, ...metaTagFavicons],
+    baseUrl,
+    redirectChain,
+    connectionFailed,
+  };
+}
 
-  favicons.push(...linkTagFavicons);
-  favicons.push(...manifestFavicons);
+/**
+ * Score the icons found on a website for a request, together with the
+ * well-known locations and the fallback providers, best first
+ */
+export function rankFavicons(
+  site: SiteDiscovery,
+  config: AppConfig,
+  options: DiscoveryOptions = {}
+): DiscoveryResult {
+  const { size } = options;
+  const favicons: FaviconSource[] = site.icons.map((icon) => ({
+    ...icon,
+    ...calculateIconScore(icon, options),
+  }));
 
   // Always add common fallback locations (even if HTML fetch failed)
   favicons.push({
-    url: `${baseUrl}/favicon.ico`,
+    url: `${site.baseUrl}/favicon.ico`,
     source: 'fallback',
-    score: 10,
+    ...calculateFallbackScore('/favicon.ico', 'ico', '', 10, size),
   });
 
   favicons.push({
-    url: `${baseUrl}/apple-touch-icon.png`,
+    url: `${site.baseUrl}/apple-touch-icon.png`,
     source: 'fallback',
-    score: 20,
+    rel: 'apple-touch-icon',
+    ...calculateFallbackScore('/apple-touch-icon.png', 'png', 'apple-touch-icon', 20, size),
   });
 
-  // Add Google's favicon API as last-resort fallback (if enabled)
+  // Add the fallback providers (Google's favicon API by default) as last resort (if enabled)
   if (config.USE_FALLBACK_API) {
-    const trimmedDomain = url.trim();
-    const parsedUrl = new URL(
-      trimmedDomain.startsWith('http') ? trimmedDomain : `https://${trimmedDomain}`
-    );
-    const formattedDomain = `https://${parsedUrl.hostname}`;
-
-    favicons.push({
-      url: `https://www.google.com/s2/favicons?domain=${encodeURIComponent(formattedDomain)}&sz=${size || 64}`,
-      source: 'fallback-api',
-      score: 1, // Lowest priority - try this last
-    });
+    const parsedUrl = new URL(site.url);
+    favicons.push(...getFallbackProviderCandidates(parsedUrl, config.FALLBACK_PROVIDERS, size));
   }
 
   // Sort by score (highest first) and return
-  return favicons.sort((a, b) => b.score - a.score);
+  return {
+    favicons: favicons.sort((a, b) => b.score - a.score),
+    redirectChain: site.redirectChain,
+    connectionFailed: site.connectionFailed,
+  };
+}
+
+/**
+ * Fetch and parse the page, following meta refresh and canonical links
+ * Parked domains, consent interstitials and old sites often serve a stub page that
+ * points elsewhere. Those hops are only followed while the page has no icon links,
+ * count towards MAX_REDIRECTS and are reported in the redirect chain. If a hop
+ * fails, the last page that could be fetched is used.
+ */
+async function fetchDocument(
+  url: string,
+  config: AppConfig,
+  timeout: number
+): Promise<{ $: cheerio.CheerioAPI; finalUrl: string; redirectChain: string[] }> {
+  const deadline = Date.now() + timeout;
+  const { html, finalUrl, redirectChain } = await fetchHtml(url, config, timeout);
+  const visited = new Set([url, finalUrl, ...redirectChain].map(withoutFragment));
+  let document = { $: cheerio.load(html), finalUrl, redirectChain };
+
+  while (document.$('link[rel*="icon"][href]').length === 0) {
+    const nextUrl = getDocumentRedirect(document.$, document.finalUrl);
+    if (!nextUrl || visited.has(withoutFragment(nextUrl))) break;
+
+    // The hop itself counts as a redirect, and so do the HTTP redirects that follow it
+    const redirectBudget = config.MAX_REDIRECTS - document.redirectChain.length - 1;
+    const remaining = deadline - Date.now();
+    if (redirectBudget < 0 || remaining <= 0) break;
+
+    logger.debug({ from: document.finalUrl, to: nextUrl }, 'Following document redirect');
+
+    try {
+      const next = await fetchHtml(
+        nextUrl,
+        { ...config, MAX_REDIRECTS: redirectBudget },
+        remaining
+      );
+      for (const hop of [nextUrl, next.finalUrl, ...next.redirectChain]) {
+        visited.add(withoutFragment(hop));
+      }
+      document = {
+        $: cheerio.load(next.html),
+        finalUrl: next.finalUrl,
+        redirectChain: [...document.redirectChain, nextUrl, ...next.redirectChain],
+      };
+    } catch {
+      break;
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Get the page a document points to instead of itself: the `<meta http-equiv="refresh">`
+ * target, or else the canonical link. Returns undefined if it points to itself.
+ */
+function getDocumentRedirect($: cheerio.CheerioAPI, documentUrl: string): string | undefined {
+  const baseUrl = getDocumentBaseUrl($, documentUrl);
+
+  const refresh = $('meta[http-equiv]')
+    .filter((_, element) => $(element).attr('http-equiv')?.toLowerCase() === 'refresh')
+    .first()
+    .attr('content');
+  const refreshTarget = refresh ? parseMetaRefresh(refresh) : undefined;
+  const canonical = $('link[rel~="canonical"]').first().attr('href');
+
+  for (const href of [refreshTarget, canonical]) {
+    const url = href ? resolveUrl(href, baseUrl) : undefined;
+    if (url && !isDataUrl(url) && withoutFragment(url) !== withoutFragment(documentUrl)) {
+      return url;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract the URL from a meta refresh `content` value, e.g. `0; url='/home'`
+ * Returns undefined if the refresh only reloads the page
+ */
+export function parseMetaRefresh(content: string): string | undefined {
+  const match = /^\s*[\d.]*\s*[;,]?\s*(?:url\s*=\s*)?(.*)$/i.exec(content);
+  const url = match?.[1]
+    ?.trim()
+    .replace(/^(["'])(.*?)(?:\1.*)?$/, '$2')
+    .trim();
+
+  return url || undefined;
+}
+
+/**
+ * Normalize a URL for comparison, ignoring the fragment
+ */
+function withoutFragment(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
 }
 
 /**
- * Fetch HTML content from URL and return final URL after redirects
+ * Fetch the HTML head from URL and return final URL after redirects
+ * Only the document up to the end of `<head>` is read (see readHtmlHead)
  * First attempts with honest USER_AGENT, falls back to BROWSER_USER_AGENT if needed
+ * Both attempts share the timeout
  */
 async function fetchHtml(
   url: string,
   config: AppConfig,
   timeout: number
-): Promise<{ html: string; finalUrl: string }> {
+): Promise<{ html: string; finalUrl: string; redirectChain: string[] }> {
+  const signal = AbortSignal.timeout(timeout);
+
   // Try with honest USER_AGENT first
   try {
-    const response = await fetch(url, {
+    const { response, finalUrl, redirectChain } = await safeFetch(url, config, {
       headers: {
         'User-Agent': config.USER_AGENT,
         Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
         'Accept-Language': 'en-US,en;q=0.9',
       },
-      signal: AbortSignal.timeout(timeout),
-      redirect: 'follow',
+      signal,
     });
 
     if (response.ok) {
-      const html = await response.text();
-      const finalUrl = response.url;
-      return { html, finalUrl };
+      const html = await readHtmlHead(response, config.MAX_HTML_SIZE);
+      return { html, finalUrl, redirectChain };
     }
   } catch {
     // First attempt failed, will try with browser UA
   }
 
   // Fallback: Try with browser-like UA if honest UA failed
-  const response = await fetch(url, {
+  const { response, finalUrl, redirectChain } = await safeFetch(url, config, {
     headers: {
       'User-Agent': BROWSER_USER_AGENT,
       Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
       'Accept-Language': 'en-US,en;q=0.9',
     },
-    signal: AbortSignal.timeout(timeout),
-    redirect: 'follow',
+    signal,
   });
 
   if (!response.ok) {
     throw new Error(`HTTP ${response.status}`);
   }
 
-  const html = await response.text();
-  const finalUrl = response.url;
+  const html = await readHtmlHead(response, config.MAX_HTML_SIZE);
 
-  return { html, finalUrl };
+  return { html, finalUrl, redirectChain };
 }
 
 /**
  * Extract favicon URLs from link tags
  */
-function extractFromLinkTags($: cheerio.CheerioAPI, baseUrl: string): FaviconSource[] {
-  const favicons: FaviconSource[] = [];
+function extractFromLinkTags($: cheerio.CheerioAPI, baseUrl: string): DiscoveredIcon[] {
+  const favicons: DiscoveredIcon[] = [];
 
   $('link[rel*="icon"]').each((_, element) => {
     const href = $(element).attr('href');
     if (!href) return;
 
+    const url = resolveUrl(href, baseUrl);
+    if (!url) return;
+
     const sizes = $(element).attr('sizes');
-    let type = $(element).attr('type') || '';
+    const type = $(element).attr('type') || guessFormat(href);
     const rel = $(element).attr('rel') || '';
 
-    if (!type) {
-      if (isDataUrl(href)) {
-        const mimeMatch = href.match(/^data:([^;,]+)/);
-        if (mimeMatch && mimeMatch[1]) {
-          type = mimeMatch[1];
-        }
-      } else {
-        type = href.split('.').pop() || '';
-      }
-    }
-
-    const size = parseSizes(sizes);
-    const score = calculateScore(size, type, rel);
+    const media = $(element).attr('media')?.trim() || undefined;
+    const color = rel.includes('mask-icon') ? parseIconColor($(element).attr('color')) : undefined;
 
     favicons.push({
-      url: resolveUrl(href, baseUrl),
-      size,
+      url,
+      size: parseSizes(sizes),
       format: type,
       source: 'link-tag',
-      score,
+      rel,
+      media,
+      color,
     });
   });
 
   return favicons;
 }
 
+/**
+ * Meta tags with images that can stand in for a favicon, in order of preference
+ * They rank below every declared icon and the well-known locations, but above the
+ * fallback providers. Scores are fixed, as these tags don't declare sizes.
+ */
+const META_IMAGE_SOURCES = [
+  { source: 'ms-tile', names: ['msapplication-tileimage'], score: 8 },
+  { source: 'og-logo', names: ['og:logo'], score: 6 },
+  { source: 'og-image', names: ['og:image', 'og:image:url'], score: 4 },
+  { source: 'twitter-image', names: ['twitter:image', 'twitter:image:src'], score: 2 },
+] as const;
+
+/**
+ * Images from meta tags are only used if they are close to square, since
+ * Open Graph and Twitter images are usually 1.91:1 or 2:1 banners
+ */
+const MAX_META_IMAGE_ASPECT_RATIO = 1.25;
+
+/**
+ * Extract tile and social images from meta tags
+ * Open Graph images declaring non-square og:image:width/height are skipped without fetching them
+ */
+function extractFromMetaTags($: cheerio.CheerioAPI, baseUrl: string): DiscoveredIcon[] {
+  // First content of each meta name or property, which sites mix up for og: and twitter: tags
+  const metas = new Map<string, string>();
+  $('meta[content]').each((_, element) => {
+    const key = ($(element).attr('property') || $(element).attr('name') || '').toLowerCase();
+    const content = $(element).attr('content')?.trim();
+    if (key && content && !metas.has(key)) {
+      metas.set(key, content);
+    }
+  });
+
+  const declaredWidth = Number(metas.get('og:image:width'));
+  const declaredHeight = Number(metas.get('og:image:height'));
+
+  const favicons: DiscoveredIcon[] = [];
+  for (const { source, names } of META_IMAGE_SOURCES) {
+    const content = names.map((name) => metas.get(name)).find(Boolean);
+    const url = content ? resolveUrl(content, baseUrl) : undefined;
+    if (!url) continue;
+
+    if (
+      source === 'og-image' &&
+      declaredWidth > 0 &&
+      declaredHeight > 0 &&
+      !isSquarish(declaredWidth, declaredHeight)
+    ) {
+      continue;
+    }
+
+    const tileColor =
+      source === 'ms-tile' ? parseIconColor(metas.get('msapplication-tilecolor')) : undefined;
+    favicons.push({ url, source, tileColor });
+  }
+
+  return favicons;
+}
+
+/**
+ * Whether an image from a meta tag is square enough to be used as an icon
+ */
+function isSquarish(width: number, height: number): boolean {
+  return Math.max(width, height) / Math.min(width, height) <= MAX_META_IMAGE_ASPECT_RATIO;
+}
+
+/**
+ * Check if a candidate comes from a meta tag image
+ */
+function isMetaImageSource(source: FaviconSource['source']): boolean {
+  return META_IMAGE_SOURCES.some((meta) => meta.source === source);
+}
+
+/**
+ * Common manifest locations probed when the page doesn't declare one
+ */
+const WELL_KNOWN_MANIFEST_PATHS = ['/manifest.json', '/site.webmanifest', '/manifest.webmanifest'];
+
+/**
+ * Extract the manifest URL from `<link rel="manifest">`, resolved against the document base URL
+ */
+function extractManifestUrl($: cheerio.CheerioAPI, baseUrl: string): string | undefined {
+  const href = $('link[rel~="manifest"]').first().attr('href')?.trim();
+  if (!href) return undefined;
+
+  return resolveUrl(href, baseUrl);
+}
+
+/**
+ * Probe the well-known manifest locations and use the first one that yields icons
+ */
+async function extractFromWellKnownManifests(
+  baseUrl: string,
+  config: AppConfig,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<DiscoveredIcon[]> {
+  const results = await Promise.all(
+    WELL_KNOWN_MANIFEST_PATHS.map((path) =>
+      extractFromManifest(`${baseUrl}${path}`, config, timeout, signal)
+    )
+  );
+
+  return results.find((icons) => icons.length > 0) ?? [];
+}
+
 /**
  * Extract favicons from web manifest
+ * Icon sources are resolved relative to the manifest URL, as the spec requires
  */
 async function extractFromManifest(
-  baseUrl: string,
+  manifestUrl: string,
   config: AppConfig,
-  timeout: number
-): Promise<FaviconSource[]> {
-  const favicons: FaviconSource[] = [];
+  timeout: number,
+  signal?: AbortSignal
+): Promise<DiscoveredIcon[]> {
+  const favicons: DiscoveredIcon[] = [];
 
   try {
-    const manifestUrl = `${baseUrl}/manifest.json`;
-    const response = await fetch(manifestUrl, {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    const { response } = await safeFetch(manifestUrl, config, {
       headers: {
         'User-Agent': config.USER_AGENT,
       },
-      signal: AbortSignal.timeout(timeout),
+      signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
     });
 
     if (response.ok) {
-      const manifest = (await response.json()) as WebManifest;
+      const body = await readBody(response, config.MAX_HTML_SIZE);
+      const manifest = JSON.parse(new TextDecoder().decode(body)) as WebManifest;
       if (manifest.icons && Array.isArray(manifest.icons)) {
         for (const icon of manifest.icons) {
-          if (icon.src) {
+          const iconUrl = resolveManifestIconUrl(icon.src, manifestUrl);
+          if (iconUrl) {
             favicons.push({
-              url: resolveUrl(icon.src, baseUrl),
+              url: iconUrl,
               size: parseSizes(icon.sizes),
-              format: icon.type,
+              format: icon.type || guessFormat(iconUrl),
               source: 'manifest',
-              score: 40,
+              purpose: parsePurpose(icon.purpose),
             });
           }
         }
@@ -233,6 +628,80 @@ async function extractFromManifest(
   return favicons;
 }
 
+/**
+ * Extract the browserconfig.xml URL from `<meta name="msapplication-config">`
+ * Returns null if the page opts out with `content="none"`, undefined if it isn't declared
+ */
+function extractBrowserconfigUrl(
+  $: cheerio.CheerioAPI,
+  baseUrl: string
+): string | null | undefined {
+  const content = $('meta')
+    .filter((_, element) => $(element).attr('name')?.toLowerCase() === 'msapplication-config')
+    .first()
+    .attr('content')
+    ?.trim();
+  if (!content) return undefined;
+  if (content.toLowerCase() === 'none') return null;
+
+  return resolveUrl(content, baseUrl);
+}
+
+/**
+ * Extract the square tile logos from browserconfig.xml
+ * Tile sources are resolved relative to the browserconfig URL
+ */
+async function extractFromBrowserconfig(
+  browserconfigUrl: string,
+  config: AppConfig,
+  timeout: number
+): Promise<DiscoveredIcon[]> {
+  try {
+    const { response } = await safeFetch(browserconfigUrl, config, {
+      headers: {
+        'User-Agent': config.USER_AGENT,
+      },
+      signal: AbortSignal.timeout(timeout),
+    });
+
+    if (!response.ok) return [];
+
+    const body = await readBody(response, config.MAX_HTML_SIZE);
+    const { tiles, tileColor } = parseBrowserconfig(new TextDecoder().decode(body));
+
+    return tiles.flatMap(({ src, size }) => {
+      const url = resolveUrl(src, browserconfigUrl);
+      if (!url) return [];
+
+      const format = src.split('.').pop() || '';
+      return [{ url, size, format, source: 'browserconfig' as const, tileColor }];
+    });
+  } catch {
+    // browserconfig.xml not found or invalid, continue without it
+    return [];
+  }
+}
+
+/**
+ * Guess the format of an icon without a declared type from its URL: the MIME
+ * type of a data URL, else the file extension
+ */
+function guessFormat(href: string): string {
+  if (isDataUrl(href)) {
+    return href.match(/^data:([^;,]+)/)?.[1] ?? '';
+  }
+  return href.split('.').pop() || '';
+}
+
+/**
+ * Resolve a manifest icon `src` against the manifest URL
+ */
+function resolveManifestIconUrl(src: unknown, manifestUrl: string): string | undefined {
+  if (typeof src !== 'string' || !src.trim()) return undefined;
+
+  return resolveUrl(src, manifestUrl);
+}
+
 /**
  * Parse size string (e.g., "32x32") to number
  */
@@ -243,113 +712,551 @@ function parseSizes(sizes: string | undefined): number | undefined {
   return match && match[1] ? parseInt(match[1], 10) : undefined;
 }
 
+/**
+ * Score of a favicon candidate, with a short explanation of how it was ranked
+ */
+interface CandidateScore {
+  score: number;
+  reason: string;
+}
+
+/**
+ * Score an icon found on the website for the requested size, purpose, theme and variant
+ */
+function calculateIconScore(icon: DiscoveredIcon, options: DiscoveryOptions): CandidateScore {
+  switch (icon.source) {
+    case 'link-tag': {
+      const rel = icon.rel ?? '';
+      return calculateVariantScore(
+        calculateColorSchemeScore(
+          calculateScore(icon.size, icon.format, rel, options.size),
+          icon.media,
+          options.theme
+        ),
+        rel,
+        options.variant
+      );
+    }
+    case 'manifest':
+      return calculateManifestScore(
+        icon.size,
+        icon.format,
+        icon.purpose ?? ['any'],
+        options.purpose ?? 'any',
+        options.size
+      );
+    case 'browserconfig':
+      return calculateBrowserconfigScore(icon.size ?? 0, icon.format ?? '', options.size);
+    default: {
+      // Meta tag images don't declare sizes, so their score is fixed
+      const meta = META_IMAGE_SOURCES.find(({ source }) => source === icon.source);
+      return { score: meta?.score ?? 0, reason: `${meta?.names[0] ?? icon.source} meta tag` };
+    }
+  }
+}
+
 /**
  * Calculate quality score for a favicon
+ * Without a target size the biggest icon wins. With a target size (in pixels,
+ * DPR already applied) the smallest icon that is at least the target size wins,
+ * and the format only breaks ties.
+ */
+function calculateScore(
+  size: number | undefined,
+  type: string | undefined,
+  rel: string,
+  targetSize?: number
+): CandidateScore {
+  const sizeScore = scoreSize(size, type, rel, targetSize);
+  let score = 50 + sizeScore.score;
+
+  if (targetSize) {
+    // Format tie-breaking
+    if (type?.includes('png')) score += 5;
+    else if (type?.includes('webp')) score += 4;
+    else if (type?.includes('ico')) score += 3;
+    else if (type?.includes('gif')) score += 1;
+  } else {
+    // Prefer SVG (vector, scales perfectly)
+    if (type?.includes('svg')) {
+      score += 100;
+    }
+
+    // Format preference
+    if (type?.includes('png')) score += 20;
+    else if (type?.includes('webp')) score += 15;
+    else if (type?.includes('gif')) score += 10;
+    else if (type?.includes('ico')) score += 5;
+
+    // Rel attribute preference
+    if (rel.includes('apple-touch-icon')) score += 10;
+  }
+
+  if (rel.includes('mask-icon')) score -= 10; // Usually monochrome
+
+  return { score, reason: sizeScore.reason };
+}
+
+/**
+ * Highest size component of the quality score, for an exact match or a 512px+
+ * icon when no size is requested
  */
-function calculateScore(size: number | undefined, type: string | undefined, rel: string): number {
-  let score = 50;
+const MAX_SIZE_SCORE = 90;
+
+/**
+ * Size component of the quality score
+ * Kept separate so candidates can be re-scored once their real size is known
+ */
+function scoreSize(
+  size: number | undefined,
+  type: string | undefined,
+  rel: string,
+  targetSize?: number
+): CandidateScore {
+  if (targetSize) {
+    // Apple touch icons without sizes are 180px by convention
+    const estimatedSize = size ?? (rel.includes('apple-touch-icon') ? 180 : undefined);
+    return scoreSizeFit(estimatedSize, type, targetSize);
+  }
 
-  // Prefer SVG (vector, scales perfectly)
   if (type?.includes('svg')) {
-    score += 100;
+    return { score: 0, reason: 'vector icon, largest preferred when no size is requested' };
+  }
+
+  if (!size) {
+    return { score: 0, reason: 'no declared size' };
   }
 
   // Size preference (larger is better)
-  if (size) {
-    if (size >= 512) score += 90;
-    else if (size >= 256) score += 80;
-    else if (size >= 192) score += 70;
-    else if (size >= 128) score += 60;
-    else if (size >= 64) score += 50;
-    else if (size >= 32) score += 40;
-  }
-
-  // Format preference
-  if (type?.includes('png')) score += 20;
-  else if (type?.includes('webp')) score += 15;
-  else if (type?.includes('gif')) score += 10;
-  else if (type?.includes('ico')) score += 5;
-
-  // Rel attribute preference
-  if (rel.includes('apple-touch-icon')) score += 10;
-  if (rel.includes('mask-icon')) score -= 10; // Usually monochrome
+  let score = 0;
+  if (size >= 512) score = 90;
+  else if (size >= 256) score = 80;
+  else if (size >= 192) score = 70;
+  else if (size >= 128) score = 60;
+  else if (size >= 64) score = 50;
+  else if (size >= 32) score = 40;
 
-  return score;
+  return { score, reason: `${size}px icon, largest preferred when no size is requested` };
 }
 
 /**
- * Resolve relative URL to absolute
+ * Score how well an icon of the given size fits the target size
+ * Downscaling a slightly larger icon is fine, upscaling is penalized heavily
  */
-function resolveUrl(url: string, baseUrl: string): string {
-  // Handle data URLs (inline images)
-  if (isDataUrl(url)) {
-    return url;
+function scoreSizeFit(
+  size: number | undefined,
+  type: string | undefined,
+  targetSize: number
+): CandidateScore {
+  if (type?.includes('svg')) {
+    // Just below an exact match, as hand-tuned bitmaps usually look sharper at small sizes
+    return { score: 85, reason: `vector icon scales to ${targetSize}px` };
   }
 
-  if (url.startsWith('http')) {
-    return url;
+  if (!size) {
+    if (type?.includes('ico')) {
+      // ICO files usually bundle hand-tuned 16-48px frames
+      return targetSize <= 48
+        ? { score: 70, reason: `ico without declared size, likely has a ${targetSize}px frame` }
+        : { score: 20, reason: `ico without declared size, likely smaller than ${targetSize}px` };
+    }
+    return { score: 35, reason: 'no declared size' };
+  }
+
+  if (size === targetSize) {
+    return { score: 90, reason: `${size}px exactly matches ${targetSize}px target` };
+  }
+
+  if (size > targetSize) {
+    const penalty = Math.min(50, Math.round(Math.log2(size / targetSize) * 15));
+    return { score: 90 - penalty, reason: `${size}px downscales to ${targetSize}px target` };
+  }
+
+  const penalty = Math.round(Math.log2(targetSize / size) * 15);
+  return {
+    score: Math.max(0, 30 - penalty),
+    reason: `${size}px needs upscaling to ${targetSize}px target`,
+  };
+}
+
+/**
+ * Calculate quality score for a guessed well-known fallback location
+ * Without a target size they are only tried after all declared icons. With a
+ * target size they are ranked like declared icons, minus a penalty for being
+ * guessed, so a small favicon.ico can beat a huge declared PNG.
+ */
+function calculateFallbackScore(
+  path: string,
+  type: string,
+  rel: string,
+  defaultScore: number,
+  targetSize?: number
+): CandidateScore {
+  if (!targetSize) {
+    return { score: defaultScore, reason: `well-known ${path} location` };
+  }
+
+  const { score, reason } = calculateScore(undefined, type, rel, targetSize);
+  return { score: score - 20, reason: `well-known ${path} location, ${reason}` };
+}
+
+/**
+ * Calculate quality score for a Windows tile logo
+ * Tiles are often white silhouettes meant to be shown on the tile color, so they
+ * rank below link tag and manifest icons of the same size and format
+ */
+function calculateBrowserconfigScore(
+  size: number,
+  type: string,
+  targetSize?: number
+): CandidateScore {
+  const { score, reason } = calculateScore(size, type, '', targetSize);
+  return { score: score - 15, reason: `browserconfig tile, ${reason}` };
+}
+
+/**
+ * Parse the space-separated manifest `purpose` member
+ * Unknown keywords are ignored, and an empty purpose defaults to "any" per the spec
+ */
+function parsePurpose(purpose: string | undefined): IconPurpose[] {
+  const purposes = (purpose || '')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((value): value is IconPurpose => ['any', 'maskable', 'monochrome'].includes(value));
+
+  return purposes.length > 0 ? purposes : ['any'];
+}
+
+/**
+ * Calculate quality score for a manifest icon
+ * Uses the regular size/format scoring, adjusted for the icon purpose
+ */
+function calculateManifestScore(
+  size: number | undefined,
+  type: string | undefined,
+  purposes: IconPurpose[],
+  requestedPurpose: IconPurpose,
+  targetSize?: number
+): CandidateScore {
+  const base = calculateScore(size, type, '', targetSize);
+  // Slightly below a link tag icon of the same size and format
+  let score = base.score - 10;
+  let reason = base.reason;
+
+  if (purposes.includes(requestedPurpose)) {
+    // Explicitly requested maskable/monochrome artwork beats everything else
+    if (requestedPurpose !== 'any') {
+      score += 200;
+      reason = `${requestedPurpose} icon as requested, ${reason}`;
+    }
+  } else if (requestedPurpose === 'any') {
+    // Maskable icons have a large safe-zone padding and monochrome icons are
+    // plain silhouettes, so neither is a good fit for plain display
+    score -= purposes.includes('monochrome') ? 150 : 100;
+    reason = `${purposes.join(' ')} icon not meant for plain display, ${reason}`;
+  }
+
+  return { score, reason };
+}
+
+/**
+ * Adjust a link tag icon's score for the color scheme its `media` query targets
+ * Variants for the other color scheme are only used if nothing else works. Without
+ * a requested theme light UIs are assumed, so dark variants are never preferred.
+ */
+function calculateColorSchemeScore(
+  base: CandidateScore,
+  media: string | undefined,
+  requestedTheme: IconTheme | undefined
+): CandidateScore {
+  const scheme = getMediaColorScheme(media);
+  if (!scheme) return base;
+
+  const theme = requestedTheme ?? 'light';
+  if (scheme !== theme) {
+    return { score: base.score - 100, reason: `${scheme} variant for ${theme} UI, ${base.reason}` };
+  }
+
+  if (requestedTheme) {
+    return { score: base.score + 30, reason: `${scheme} variant as requested, ${base.reason}` };
+  }
+
+  return base;
+}
+
+/**
+ * Adjust a link tag icon's score for the requested icon variant
+ * A requested mask icon beats everything else, like an explicitly requested manifest purpose
+ */
+function calculateVariantScore(
+  base: CandidateScore,
+  rel: string,
+  variant: IconVariant | undefined
+): CandidateScore {
+  if (variant === 'mask' && rel.includes('mask-icon')) {
+    return { score: base.score + 200, reason: `mask icon as requested, ${base.reason}` };
   }
 
-  if (url.startsWith('//')) {
-    return `https:${url}`;
+  return base;
+}
+
+/**
+ * Resolve an href against a base URL, following WHATWG URL semantics
+ * Data URLs are kept as-is, anything that isn't http(s) is dropped
+ */
+export function resolveUrl(url: string, baseUrl: string): string | undefined {
+  const trimmed = url.trim();
+
+  // Handle data URLs (inline images)
+  if (isDataUrl(trimmed)) {
+    return trimmed;
   }
 
-  if (url.startsWith('/')) {
-    return `${baseUrl}${url}`;
+  try {
+    const resolved = new URL(trimmed, baseUrl);
+    return ['http:', 'https:'].includes(resolved.protocol) ? resolved.toString() : undefined;
+  } catch {
+    return undefined;
   }
+}
+
+/**
+ * Get the base URL that relative hrefs in the document resolve against
+ * This is the first `<base href>` (itself resolved against the document URL), or the document URL
+ */
+export function getDocumentBaseUrl($: cheerio.CheerioAPI, documentUrl: string): string {
+  const href = $('base[href]').first().attr('href');
+  if (href === undefined) return documentUrl;
 
-  return `${baseUrl}/${url}`;
+  return resolveUrl(href, documentUrl) ?? documentUrl;
 }
 
 /**
  * Fetch the best favicon from the list
+ * Candidates are fetched in ranked order, up to FETCH_CONCURRENCY at a time, and
+ * re-scored with their decoded size since declared sizes are often wrong. The
+ * result is decided once no unfinished candidate could beat the best decoded one,
+ * whatever its decoded size turns out to be, at which point all remaining fetches
+ * are cancelled. The winner therefore doesn't depend on which fetch finishes first.
  */
-export async function fetchBestFavicon(
+export function fetchBestFavicon(
   favicons: FaviconSource[],
-  config: AppConfig
-): Promise<{ data: Buffer; format: string; source: string; url: string } | null> {
-  for (const favicon of favicons) {
-    try {
-      let buffer: Buffer;
-      let mimeType: string | undefined;
-
-      // Check if this is a data URL
-      if (isDataUrl(favicon.url)) {
-        const parsed = parseDataUrl(favicon.url);
-        if (!parsed) continue;
-        buffer = parsed.buffer;
-        mimeType = parsed.mimeType;
-      } else {
-        // Regular HTTP(S) URL - fetch it
-        const response = await fetch(favicon.url, {
-          headers: {
-            'User-Agent': config.USER_AGENT,
-          },
-          signal: AbortSignal.timeout(config.REQUEST_TIMEOUT),
-        });
+  config: AppConfig,
+  options: DiscoveryOptions = {}
+): Promise<FetchedFavicon | null> {
+  const controllers = favicons.map(() => new AbortController());
+  const settled = favicons.map(() => false);
+  const bounds = favicons.map((favicon) => maxDecodedScore(favicon, options.size));
+  let best: ScoredFavicon | null = null;
+  let running = 0;
+  let next = 0;
+  let done = false;
 
-        if (!response.ok) continue;
+  return new Promise((resolve) => {
+    const finish = () => {
+      done = true;
+      // Cancel the losers that are still in flight
+      controllers.forEach((controller) => controller.abort());
+      resolve(best?.favicon ?? null);
+    };
 
-        const arrayBuffer = await response.arrayBuffer();
-        buffer = Buffer.from(arrayBuffer);
-      }
+    const isDecided = () =>
+      settled.every(
+        (isSettled, index) =>
+          isSettled || (best !== null && beats(best, bounds[index] ?? Infinity, index))
+      );
 
-      // Validate buffer size and that it contains valid image data
-      if (buffer.length > 0 && buffer.length <= config.MAX_IMAGE_SIZE) {
-        // Check if buffer contains valid image data before returning
-        const isValid = await validateImage(buffer);
-        if (isValid) {
-          const format = detectFormat(buffer, mimeType || favicon.format);
-          return { data: buffer, format, source: favicon.source, url: favicon.url };
+    const launch = () => {
+      while (!done && running < config.FETCH_CONCURRENCY && next < favicons.length) {
+        const index = next++;
+        const favicon = favicons[index];
+        const controller = controllers[index];
+        if (!favicon || !controller) {
+          settled[index] = true;
+          continue;
         }
+
+        running++;
+        void fetchCandidate(favicon, index, config, options, controller.signal).then((fetched) => {
+          running--;
+          settled[index] = true;
+          if (done) return;
+
+          if (fetched && (!best || beats(fetched, best.score, best.index))) {
+            best = fetched;
+          }
+
+          if (isDecided()) {
+            finish();
+          } else {
+            launch();
+          }
+        });
       }
-    } catch {
-      // Try next favicon
-      continue;
+    };
+
+    if (favicons.length === 0) {
+      finish();
+    } else {
+      launch();
+    }
+  });
+}
+
+/**
+ * Fetched favicon together with its score after decoding and its rank in the list
+ */
+interface ScoredFavicon {
+  favicon: FetchedFavicon;
+  score: number;
+  index: number;
+}
+
+/**
+ * Whether a scored favicon beats a score at the given rank
+ * Equal scores are won by the higher-ranked (lower index) candidate
+ */
+function beats(favicon: ScoredFavicon, score: number, index: number): boolean {
+  return favicon.score > score || (favicon.score === score && favicon.index < index);
+}
+
+/**
+ * Fetch and decode a single candidate
+ * Returns null if it can't be fetched, isn't a valid image or is degenerate
+ */
+async function fetchCandidate(
+  favicon: FaviconSource,
+  index: number,
+  config: AppConfig,
+  options: DiscoveryOptions,
+  signal: AbortSignal
+): Promise<ScoredFavicon | null> {
+  try {
+    let buffer: Buffer;
+    let mimeType: string | undefined;
+    let redirectChain: string[] = [];
+
+    // Check if this is a data URL
+    if (isDataUrl(favicon.url)) {
+      const parsed = parseDataUrl(favicon.url);
+      if (!parsed) return null;
+      buffer = parsed.buffer;
+      mimeType = parsed.mimeType;
+    } else {
+      // Regular HTTP(S) URL - fetch it
+      const result = await safeFetch(favicon.url, config, {
+        headers: {
+          'User-Agent': config.USER_AGENT,
+        },
+        signal: AbortSignal.any([
+          signal,
+          AbortSignal.timeout(favicon.timeout ?? config.REQUEST_TIMEOUT),
+        ]),
+      });
+      const { response } = result;
+      redirectChain = result.redirectChain;
+
+      if (!response.ok) return null;
+
+      buffer = await readBody(response, config.MAX_IMAGE_SIZE);
+    }
+
+    // Validate buffer size and that it contains valid image data
+    if (buffer.length === 0 || buffer.length > config.MAX_IMAGE_SIZE) return null;
+    if (!(await validateImage(buffer))) return null;
+
+    const inspection = await inspectImage(buffer, options.size);
+    if (inspection?.degenerate) return null;
+
+    // Social images are usually banners, only square ones (logos) are usable as icons
+    if (isMetaImageSource(favicon.source)) {
+      if (!inspection) return null;
+      if (
+        inspection.width &&
+        inspection.height &&
+        !isSquarish(inspection.width, inspection.height)
+      ) {
+        return null;
+      }
+    }
+
+    // Generic provider globes and site builder defaults don't identify the website
+    const hash = await computeImageHash(buffer);
+    const placeholder = hash ? findPlaceholder(hash, config.PLACEHOLDER_HASHES) : null;
+    if (placeholder) {
+      logger.debug(
+        { url: favicon.url, placeholder: placeholder.name },
+        'Skipping placeholder icon'
+      );
+      return null;
     }
+
+    const format = detectFormat(buffer, mimeType || favicon.format);
+    const { score, reason } = rescoreCandidate(favicon, inspection, options.size);
+
+    return {
+      favicon: {
+        data: buffer,
+        format,
+        source: favicon.source,
+        url: favicon.url,
+        reason,
+        color: favicon.color,
+        tileColor: favicon.tileColor,
+        redirectChain,
+      },
+      score,
+      index,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the size component of a candidate's score with one based on the decoded size
+ */
+function rescoreCandidate(
+  favicon: FaviconSource,
+  inspection: ImageInspection | null,
+  targetSize?: number
+): CandidateScore {
+  // Fallback providers and meta tag images are ranked by their fixed order only
+  if (favicon.source === 'fallback-api' || isMetaImageSource(favicon.source)) {
+    return { score: favicon.score, reason: favicon.reason ?? '' };
   }
 
-  return null;
+  const actualSize = inspection ? Math.max(inspection.width, inspection.height) : 0;
+  if (!inspection || !actualSize || actualSize === favicon.size) {
+    return { score: favicon.score, reason: favicon.reason ?? '' };
+  }
+
+  const rel = favicon.rel ?? '';
+  const declared = scoreSize(favicon.size, favicon.format, rel, targetSize);
+  const actual = scoreSize(actualSize, favicon.format, rel, targetSize);
+
+  return {
+    score: favicon.score - declared.score + actual.score,
+    reason: `decoded as ${inspection.width}x${inspection.height}, ${actual.reason}`,
+  };
+}
+
+/**
+ * Highest score a candidate can reach once re-scored with its decoded size
+ * Only the size component changes (see rescoreCandidate), so this swaps the
+ * declared size's score for the best possible one
+ */
+function maxDecodedScore(favicon: FaviconSource, targetSize?: number): number {
+  if (favicon.source === 'fallback-api' || isMetaImageSource(favicon.source)) {
+    return favicon.score;
+  }
+
+  const rel = favicon.rel ?? '';
+  const declared = scoreSize(favicon.size, favicon.format, rel, targetSize);
+  // Vector icons score the same at any size
+  const best = favicon.format?.includes('svg') ? declared.score : MAX_SIZE_SCORE;
+
+  return favicon.score - declared.score + best;
 }
 
 /**
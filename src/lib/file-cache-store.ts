@@ -0,0 +1,143 @@
+/**
+ * Filesystem cache store
+ * One file per key, named by the key's hash, starting with the expiry time.
+ * Writes go through a temporary file and a rename, so instances sharing the
+ * directory never read a partial entry. Expired files are removed when read
+ * and by a periodic sweep, which also keeps the directory under its byte limit.
+ */
+
+import { mkdir, open, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import type { CacheStore } from './cache-store';
+import { logger } from './logger';
+
+const EXPIRY_BYTES = 8;
+
+/**
+ * Time between sweeps of the cache directory (ms)
+ */
+const SWEEP_INTERVAL = 10 * 60 * 1000;
+
+export interface FileCacheStore extends CacheStore {
+  /**
+   * Remove expired entries and abandoned temporary files, then the entries
+   * closest to expiry until the directory fits in maxBytes
+   */
+  sweep(): Promise<void>;
+}
+
+export function createFileCacheStore(dir: string, maxBytes: number): FileCacheStore {
+  const pathFor = (key: string) => {
+    const hash = new Bun.CryptoHasher('sha256').update(key).digest('hex');
+    // Two levels keep directories small
+    return join(dir, hash.slice(0, 2), hash);
+  };
+
+  const sweep = async () => {
+    let files;
+    try {
+      files = await readdir(dir, { recursive: true, withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const now = Date.now();
+    const entries: { path: string; expiry: number; size: number }[] = [];
+    let totalBytes = 0;
+
+    for (const file of files) {
+      if (!file.isFile()) continue;
+      const path = join(file.parentPath, file.name);
+      const info = await readEntryInfo(path);
+      if (!info) continue;
+
+      if (path.endsWith('.tmp')) {
+        // Temporary files older than a sweep belong to writes that never finished
+        if (info.modified < now - SWEEP_INTERVAL) await rm(path, { force: true });
+      } else if (info.expiry <= now) {
+        await rm(path, { force: true });
+      } else {
+        entries.push({ path, expiry: info.expiry, size: info.size });
+        totalBytes += info.size;
+      }
+    }
+
+    entries.sort((a, b) => a.expiry - b.expiry);
+    for (const entry of entries) {
+      if (totalBytes <= maxBytes) break;
+      await rm(entry.path, { force: true });
+      totalBytes -= entry.size;
+    }
+  };
+
+  setInterval(() => {
+    sweep().catch((error) => logger.warn({ err: error, dir }, 'Failed to sweep cache directory'));
+  }, SWEEP_INTERVAL).unref();
+
+  return {
+    async get(key) {
+      const path = pathFor(key);
+
+      let file: Buffer;
+      try {
+        file = await readFile(path);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+
+      if (file.length < EXPIRY_BYTES || file.readDoubleBE(0) <= Date.now()) {
+        await rm(path, { force: true });
+        return null;
+      }
+
+      return file.subarray(EXPIRY_BYTES);
+    },
+
+    async set(key, value, ttl) {
+      const path = pathFor(key);
+      const expiry = Buffer.alloc(EXPIRY_BYTES);
+      expiry.writeDoubleBE(Date.now() + ttl);
+
+      await mkdir(join(path, '..'), { recursive: true });
+      const temporary = `${path}.${process.pid}.${randomUUID()}.tmp`;
+      await writeFile(temporary, Buffer.concat([expiry, value]));
+      await rename(temporary, path);
+    },
+
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    },
+
+    sweep,
+  };
+}
+
+/**
+ * Read the expiry header, size and modification time of a cache file
+ * Returns null if the file was removed in the meantime. Files too short to
+ * hold an expiry count as expired.
+ */
+async function readEntryInfo(
+  path: string
+): Promise<{ expiry: number; size: number; modified: number } | null> {
+  let handle;
+  try {
+    handle = await open(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  try {
+    const { size, mtimeMs } = await handle.stat();
+    const header = Buffer.alloc(EXPIRY_BYTES);
+    const { bytesRead } = await handle.read(header, 0, EXPIRY_BYTES, 0);
+    const expiry = bytesRead < EXPIRY_BYTES ? 0 : header.readDoubleBE(0);
+    return { expiry, size, modified: mtimeMs };
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Host fallback chain
+ * Sites often only serve icons on `www.` or on the registrable domain, so
+ * discovery can retry there when a host has no usable icon
+ */
+
+import { getDomain } from 'tldts';
+
+export type HostFallbackStep = 'www' | 'apex';
+
+/**
+ * Get the hosts to retry discovery on, in the order of the configured steps
+ * - www: the `www.` variant of the registrable domain
+ * - apex: the registrable domain itself (per the Public Suffix List, so `foo.co.uk` stays intact)
+ * IP addresses and hosts without a registrable domain have no fallbacks.
+ */
+export function getFallbackHosts(hostname: string, steps: HostFallbackStep[]): string[] {
+  // Private suffixes count too, so `user.github.io` never falls back to `github.io`
+  const domain = getDomain(hostname, { allowPrivateDomains: true });
+  if (!domain) return [];
+
+  const hosts: string[] = [];
+  for (const step of steps) {
+    const host = step === 'www' ? `www.${domain}` : domain;
+    if (host !== hostname && !hosts.includes(host)) {
+      hosts.push(host);
+    }
+  }
+
+  return hosts;
+}
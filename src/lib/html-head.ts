@@ -0,0 +1,291 @@
+/**
+ * Head-only HTML reading
+ * Icons, `<base>` and meta tags live in `<head>`, so discovery stops reading
+ * the document as soon as the head is over. Documents are decoded with their
+ * declared or sniffed charset, so non-UTF-8 sites get correct hrefs.
+ */
+
+/**
+ * Elements that may appear in `<head>` without implicitly starting the body
+ */
+const HEAD_ELEMENTS = new Set([
+  'html',
+  'head',
+  'base',
+  'link',
+  'meta',
+  'title',
+  'style',
+  'script',
+  'noscript',
+  'template',
+]);
+
+/**
+ * Elements whose content is text, so tags inside them must not be interpreted
+ */
+const RAW_TEXT_ELEMENTS = new Set(['title', 'style', 'script', 'noscript', 'template']);
+
+/**
+ * Bytes buffered before the encoding is picked, as `<meta charset>` must appear
+ * within the first 1024 bytes of the document
+ */
+const SNIFF_BYTES = 1024;
+
+/**
+ * Read an HTML response until the end of its `<head>`
+ * The document is decoded with the encoding from detectHtmlEncoding
+ * If more than maxBytes are read before the head is over, the part of the head
+ * read so far is returned, up to its last complete tag. Throws if that's empty.
+ */
+export async function readHtmlHead(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const pending: Uint8Array[] = [];
+  let decoder: TextDecoder | null = null;
+  let html = '';
+  let received = 0;
+  const scan: HeadScan = { index: 0 };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (value) {
+      received += value.byteLength;
+    }
+
+    if (!decoder) {
+      // Buffer the start of the document until the encoding can be sniffed
+      if (value) pending.push(value);
+      if (!done && received < SNIFF_BYTES && received <= maxBytes) continue;
+
+      const prefix = Buffer.concat(pending);
+      decoder = new TextDecoder(detectHtmlEncoding(prefix, response.headers.get('content-type')));
+      html = decoder.decode(prefix, { stream: true });
+    } else if (value) {
+      html += decoder.decode(value, { stream: true });
+    }
+
+    if (done) {
+      html += decoder.decode();
+    }
+
+    const headEnd = scanHead(html, scan);
+    if (headEnd !== -1) {
+      if (!done) await reader.cancel();
+      return html.slice(0, headEnd);
+    }
+    if (done) {
+      return html;
+    }
+
+    if (received > maxBytes) {
+      await reader.cancel();
+      if (scan.index === 0) {
+        throw new Error(`Response too large: over ${maxBytes} bytes before the first tag`);
+      }
+      return html.slice(0, scan.index);
+    }
+  }
+}
+
+/**
+ * Detect the encoding of an HTML document from the start of its bytes
+ * In order: byte order mark, Content-Type charset, `<meta charset>` or
+ * `<meta http-equiv="Content-Type">` in the first 1024 bytes, else UTF-8
+ */
+export function detectHtmlEncoding(prefix: Uint8Array, contentType: string | null): Bun.Encoding {
+  if (prefix[0] === 0xef && prefix[1] === 0xbb && prefix[2] === 0xbf) return 'utf-8';
+  if (prefix[0] === 0xfe && prefix[1] === 0xff) return 'utf-16be';
+  if (prefix[0] === 0xff && prefix[1] === 0xfe) return 'utf-16le';
+
+  const headerCharset = contentType?.match(/charset\s*=\s*["']?([^;"'\s]+)/i)?.[1];
+  const headerEncoding = headerCharset ? getEncoding(headerCharset) : undefined;
+  if (headerEncoding) return headerEncoding;
+
+  // Meta tags are ASCII, so any single-byte decoding finds them
+  const start = Buffer.from(prefix.subarray(0, SNIFF_BYTES)).toString('latin1');
+  for (const tag of start.match(/<meta\s[^>]*>/gi) ?? []) {
+    const charset = tag.match(/[\s;"']charset\s*=\s*["']?([^\s"'>;/]+)/i)?.[1];
+    const encoding = charset ? getEncoding(charset) : undefined;
+    if (!encoding) continue;
+
+    // A document that can declare its encoding in ASCII isn't UTF-16 (HTML spec)
+    if (encoding.startsWith('utf-16')) return 'utf-8';
+    return encoding === 'x-user-defined' ? 'windows-1252' : encoding;
+  }
+
+  return 'utf-8';
+}
+
+/**
+ * Get the canonical name of an encoding label (e.g. "Shift_JIS", "latin1")
+ * Returns undefined for labels the decoder doesn't know
+ */
+function getEncoding(label: string): Bun.Encoding | undefined {
+  try {
+    return new TextDecoder(label as Bun.Encoding).encoding as Bun.Encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Progress of a head scan, so a growing document can be scanned incrementally
+ * index is where the next token starts, and inside a raw text element or
+ * comment, endSearch is where the search for its end resumes
+ */
+export interface HeadScan {
+  index: number;
+  rawText?: string; // Name of the raw text element being scanned, or "!--" for a comment
+  endSearch?: number;
+}
+
+/**
+ * Find the offset where the document head ends: after `</head>`, or at the
+ * first `<body>` tag, body element or text content
+ * Returns -1 if the head may continue beyond the given (partial) document
+ */
+export function findHeadEnd(html: string): number {
+  return scanHead(html, { index: 0 });
+}
+
+/**
+ * Like findHeadEnd, but continues from a previous scan of the start of the
+ * document, so each byte is only scanned once as chunks arrive
+ */
+export function scanHead(html: string, scan: HeadScan): number {
+  while (scan.index < html.length || scan.rawText) {
+    // Skip to the end of a raw text element or comment
+    if (scan.rawText) {
+      const end = findRawTextEnd(html, scan);
+      if (end === -1) return -1;
+      scan.index = end;
+      scan.rawText = undefined;
+      scan.endSearch = undefined;
+      continue;
+    }
+
+    const { index } = scan;
+    const tagStart = html.indexOf('<', index);
+
+    // Text between tags starts the body, unless it's whitespace
+    const text = html.slice(index, tagStart === -1 ? undefined : tagStart);
+    const textStart = text.search(/\S/);
+    if (textStart !== -1) {
+      return index + textStart;
+    }
+    if (tagStart === -1) {
+      return -1;
+    }
+
+    // Comments, doctypes and processing instructions
+    if (html.startsWith('<!--', tagStart)) {
+      scan.rawText = '!--';
+      scan.endSearch = tagStart + 4;
+      continue;
+    }
+    if (html[tagStart + 1] === '!' || html[tagStart + 1] === '?') {
+      const declarationEnd = html.indexOf('>', tagStart);
+      if (declarationEnd === -1) return pending(scan, tagStart);
+      scan.index = declarationEnd + 1;
+      continue;
+    }
+
+    const match = /^<(\/?)([a-zA-Z][^\s/>]*)/.exec(html.slice(tagStart, tagStart + 64));
+    if (!match) {
+      // A "<" at the very end may still become a tag
+      if (tagStart + 1 === html.length || html.length - tagStart < 3) {
+        return pending(scan, tagStart);
+      }
+      // A "<" that doesn't start a tag is text
+      return tagStart;
+    }
+
+    const tagEnd = findTagEnd(html, tagStart);
+    if (tagEnd === -1) return pending(scan, tagStart);
+
+    const isClosing = match[1] === '/';
+    const name = (match[2] ?? '').toLowerCase();
+
+    if (isClosing) {
+      if (name === 'head') return tagEnd + 1;
+      scan.index = tagEnd + 1;
+      continue;
+    }
+
+    if (!HEAD_ELEMENTS.has(name)) {
+      return tagStart;
+    }
+
+    scan.index = tagEnd + 1;
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      scan.rawText = name;
+      scan.endSearch = scan.index;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Stop the scan at an incomplete token, which is scanned again with more data
+ */
+function pending(scan: HeadScan, tokenStart: number): number {
+  scan.index = tokenStart;
+  return -1;
+}
+
+/**
+ * Find where the raw text element or comment being scanned ends: at its closing
+ * tag, which is scanned as a regular tag, or after `-->`
+ * The search is case-insensitive and starts where the previous one stopped
+ */
+function findRawTextEnd(html: string, scan: HeadScan): number {
+  const name = scan.rawText ?? '';
+  const from = scan.endSearch ?? scan.index;
+  const marker = name === '!--' ? '-->' : `</${name}`;
+
+  const pattern = new RegExp(marker, 'gi');
+  pattern.lastIndex = from;
+  const match = pattern.exec(html);
+
+  if (!match) {
+    // The marker may be split across chunks
+    scan.endSearch = Math.max(from, html.length - marker.length + 1);
+    return -1;
+  }
+
+  return name === '!--' ? match.index + marker.length : match.index;
+}
+
+/**
+ * Find the `>` that ends the tag starting at tagStart, skipping quoted attribute values
+ * Like the HTML tokenizer, a quote only starts a value right after `=`, so
+ * apostrophes in unquoted values (e.g. content=Bob's) are plain characters
+ */
+function findTagEnd(html: string, tagStart: number): number {
+  let quote: string | null = null;
+  let afterEquals = false;
+
+  for (let i = tagStart + 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '>') {
+      return i;
+    } else if (char === '=') {
+      afterEquals = true;
+    } else if (afterEquals && (char === '"' || char === "'")) {
+      quote = char;
+      afterEquals = false;
+    } else if (char !== ' ' && char !== '\t' && char !== '\n' && char !== '\r' && char !== '\f') {
+      afterEquals = false;
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,244 @@
+/**
+ * Outbound HTTP requests
+ * Follows redirects manually so every hop is validated against the SSRF rules,
+ * and connects to the exact address that passed the check
+ */
+
+import dns from 'node:dns';
+import { isIP } from 'node:net';
+import { checkServerIdentity } from 'node:tls';
+import type { AppConfig } from './config';
+import type { AddressPolicy } from './ip-ranges';
+import { isAddressAllowed } from './ip-ranges';
+import { logger } from './logger';
+import { isUrlAllowed } from './validators';
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Error codes of requests that failed while connecting or during the TLS handshake
+ * (as opposed to DNS failures, timeouts and HTTP errors)
+ */
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EPROTO',
+  'ConnectionRefused',
+  'ConnectionClosed',
+  'FailedToOpenSocket',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+]);
+
+export interface SafeFetchOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface SafeFetchResult {
+  response: Response;
+  finalUrl: string;
+  redirectChain: string[]; // Every URL redirected to, in order
+}
+
+/**
+ * Request details for connecting to a checked address instead of resolving the hostname again
+ */
+interface PinnedRequest {
+  url: string;
+  headers: Record<string, string>;
+  tls?: {
+    serverName: string;
+    checkServerIdentity: typeof checkServerIdentity;
+  };
+}
+
+/**
+ * Build the address policy for SSRF checks from the config
+ */
+export function addressPolicy(config: AppConfig): AddressPolicy {
+  return {
+    blockReserved: config.BLOCK_PRIVATE_IPS,
+    allowedCidrs: config.ALLOWED_CIDRS,
+    blockedCidrs: config.BLOCKED_CIDRS,
+  };
+}
+
+/**
+ * Fetch a URL, following at most MAX_REDIRECTS redirects
+ * The initial URL and every redirect target must pass the protocol and private IP checks,
+ * including every address their hostname resolves to
+ */
+export async function safeFetch(
+  url: string,
+  config: AppConfig,
+  options: SafeFetchOptions = {}
+): Promise<SafeFetchResult> {
+  const redirectChain: string[] = [];
+  let currentUrl = url;
+
+  while (true) {
+    const target = assertUrlAllowed(currentUrl, config);
+    const pinned = await pinToCheckedAddress(target, config, options.signal);
+
+    const response = await fetch(pinned.url, {
+      headers: { ...options.headers, ...pinned.headers },
+      signal: options.signal,
+      redirect: 'manual',
+      tls: pinned.tls,
+    });
+
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, finalUrl: currentUrl, redirectChain };
+    }
+
+    // We don't need the body of redirect responses
+    await response.body?.cancel();
+
+    if (redirectChain.length >= config.MAX_REDIRECTS) {
+      throw new Error(`Too many redirects (max ${config.MAX_REDIRECTS}) for ${url}`);
+    }
+
+    const nextUrl = new URL(location, currentUrl).toString();
+    logger.debug({ from: currentUrl, to: nextUrl, status: response.status }, 'Following redirect');
+
+    redirectChain.push(nextUrl);
+    currentUrl = nextUrl;
+  }
+}
+
+/**
+ * Check if a fetch failed at the connect or TLS level, e.g. a refused connection,
+ * a failed handshake or an invalid certificate
+ */
+export function isConnectionError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code !== 'string') return false;
+
+  return CONNECTION_ERROR_CODES.has(code) || /^(ERR_TLS_|ERR_SSL_|CERT_)/.test(code);
+}
+
+/**
+ * Throw if the URL may not be requested
+ */
+function assertUrlAllowed(url: string, config: AppConfig): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  if (!isUrlAllowed(parsed, addressPolicy(config))) {
+    throw new Error(`Request to ${parsed.origin} is not allowed`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Resolve the hostname, check every address it resolves to and pin the request to one of them
+ * Pinning prevents DNS rebinding between the check and the connection
+ */
+async function pinToCheckedAddress(
+  url: URL,
+  config: AppConfig,
+  signal?: AbortSignal
+): Promise<PinnedRequest> {
+  const policy = addressPolicy(config);
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  // IP literals were already checked, and without any rules there is nothing to check
+  const hasRules = policy.blockReserved || (policy.blockedCidrs?.length ?? 0) > 0;
+  if (!hasRules || isIP(hostname)) {
+    return { url: url.toString(), headers: {} };
+  }
+
+  const addresses = await resolveHostname(hostname, signal);
+
+  const blocked = addresses.find((address) => !isAddressAllowed(address, policy));
+  if (blocked) {
+    throw new Error(`Request to ${url.origin} is not allowed (resolves to ${blocked})`);
+  }
+
+  // Prefer IPv4, since we can't fall back between addresses once pinned
+  const address = addresses.find((candidate) => isIP(candidate) === 4) ?? addresses[0];
+  if (!address) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+
+  const pinnedUrl = new URL(url);
+  pinnedUrl.hostname = isIP(address) === 6 ? `[${address}]` : address;
+
+  return {
+    url: pinnedUrl.toString(),
+    headers: { Host: url.host },
+    // Certificates must still be valid for the hostname, not the address
+    tls:
+      url.protocol === 'https:'
+        ? {
+            serverName: hostname,
+            checkServerIdentity: (_host, cert) => checkServerIdentity(hostname, cert),
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Resolve all addresses of a hostname, giving up when the request is aborted
+ */
+async function resolveHostname(hostname: string, signal?: AbortSignal): Promise<string[]> {
+  signal?.throwIfAborted();
+
+  const lookup = dns.promises
+    .lookup(hostname, { all: true })
+    .then((results) => results.map((result) => result.address));
+  if (!signal) {
+    return lookup;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    lookup.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Read a response body, giving up as soon as it exceeds maxBytes
+ * A Content-Length over the limit is rejected before reading anything
+ */
+export async function readBody(response: Response, maxBytes: number): Promise<Buffer> {
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Response too large: ${contentLength} bytes (max ${maxBytes})`);
+  }
+
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Response too large: over ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
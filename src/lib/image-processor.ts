@@ -6,10 +6,17 @@
 import type { Sharp } from 'sharp';
 import sharp from 'sharp';
 import { sharpsFromIco } from 'sharp-ico';
-import type { ImageProcessOptions, ProcessedImage } from '../types';
+import type { ImageInspection, ImageProcessOptions, ProcessedImage } from '../types';
 import { detectFormatFromBuffer, isIco, isSvg, isGif } from './format-detector';
+import { resolveSvgColorScheme } from './color-scheme';
+import { fillMaskIcon } from './mask-icon';
 import isAnimated from 'is-animated';
 
+/**
+ * Icons wider or taller than this ratio are banners or spacers, not icons
+ */
+const MAX_ICON_ASPECT_RATIO = 4;
+
 /**
  * Process image: resize, convert format, optimize
  */
@@ -18,6 +25,16 @@ export async function processImage(
   options: ImageProcessOptions
 ): Promise<ProcessedImage> {
   try {
+    // Pin prefers-color-scheme rules to the requested theme, rasterizers ignore them
+    if (options.theme && isSvg(imageData)) {
+      imageData = Buffer.from(resolveSvgColorScheme(imageData.toString('utf-8'), options.theme));
+    }
+
+    // Mask icons are black silhouettes until filled with their color
+    if (options.maskColor && isSvg(imageData)) {
+      imageData = Buffer.from(fillMaskIcon(imageData.toString('utf-8'), options.maskColor));
+    }
+
     // Handle SVG pass-through
     // SVGs are vector graphics and scale perfectly, so keep them as SVG
     // unless the user explicitly requests a raster format (png, jpg, etc.)
@@ -76,39 +93,16 @@ export async function processImage(
 
     if (isIco(imageData)) {
       try {
-        // Convert ICO to Sharp instance(s), get the largest one
-        const sharpInstances = await sharpsFromIco(imageData);
-        if (sharpInstances.length > 0) {
-          // Find the largest icon by examining metadata of all instances
-          let largestSharp: Sharp | null = null;
-          let largestSize = 0;
-
-          for (const sharpInstance of sharpInstances) {
-            if (!('metadata' in sharpInstance)) {
-              continue;
-            }
-
-            const metadata = await sharpInstance.metadata();
-            const size = (metadata.width || 0) * (metadata.height || 0);
-            if (size > largestSize) {
-              largestSize = size;
-              largestSharp = sharpInstance;
-            }
-          }
-
-          detectedFormat = 'ico';
-          if (!largestSharp) {
-            throw new Error('No valid Sharp instance found in ICO');
-          }
-
-          originalMetadata = await largestSharp.metadata();
+        detectedFormat = 'ico';
+        const frame = await selectIcoFrame(imageData, options.size);
+        if (frame) {
+          originalMetadata = await frame.metadata();
 
           // Convert the Sharp instance to a buffer for further processing
-          workingBuffer = await largestSharp.png().toBuffer();
+          workingBuffer = await frame.png().toBuffer();
         }
       } catch {
         // If ICO parsing fails, fall back to original behavior
-        detectedFormat = 'ico';
       }
     }
 
@@ -212,6 +206,130 @@ function applyFormat(pipeline: sharp.Sharp, format: string, quality?: number): s
   }
 }
 
+/**
+ * Pick the ICO frame to work with
+ * Without a target size this is the largest frame, otherwise the smallest frame
+ * that is at least the target size, so hand-tuned small frames are used instead
+ * of downscaling a big one.
+ */
+async function selectIcoFrame(buffer: Buffer, targetSize?: number): Promise<Sharp | null> {
+  const sharpInstances = await sharpsFromIco(buffer);
+
+  let largestSharp: Sharp | null = null;
+  let largestSize = 0;
+  let bestFitSharp: Sharp | null = null;
+  let bestFitSize = Infinity;
+
+  for (const sharpInstance of sharpInstances) {
+    if (!('metadata' in sharpInstance)) {
+      continue;
+    }
+
+    const metadata = await sharpInstance.metadata();
+    const size = (metadata.width || 0) * (metadata.height || 0);
+    if (size > largestSize) {
+      largestSize = size;
+      largestSharp = sharpInstance;
+    }
+
+    const width = metadata.width || 0;
+    if (targetSize && width >= targetSize && width < bestFitSize) {
+      bestFitSize = width;
+      bestFitSharp = sharpInstance;
+    }
+  }
+
+  return bestFitSharp ?? largestSharp;
+}
+
+/**
+ * Decode image dimensions and check for degenerate images
+ * For ICO files the frame that processImage would use for the target size is inspected
+ * Returns null if the image can't be decoded
+ */
+export async function inspectImage(
+  buffer: Buffer,
+  targetSize?: number
+): Promise<ImageInspection | null> {
+  try {
+    if (isSvg(buffer)) {
+      // Vector images have no meaningful pixel size, 0 means unknown
+      const { width, height } = extractSvgDimensions(buffer);
+      return { width, height, degenerate: getDegenerateReason(width, height) };
+    }
+
+    const image = isIco(buffer) ? await selectIcoFrame(buffer, targetSize) : sharp(buffer);
+    if (!image) return null;
+
+    const metadata = await image.metadata();
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+
+    let degenerate = getDegenerateReason(width, height);
+    if (!degenerate && metadata.hasAlpha) {
+      const stats = await image.stats();
+      const alpha = stats.channels[stats.channels.length - 1];
+      if (alpha && alpha.max === 0) {
+        degenerate = 'fully transparent';
+      }
+    }
+
+    return { width, height, degenerate };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute a 64-bit perceptual difference hash (dHash) of an image, as 16 hex characters
+ * Visually similar images (rescaled, recompressed, ICO vs PNG) get hashes with a small
+ * Hamming distance. For ICO files the largest frame is hashed.
+ * Returns null if the image can't be decoded
+ */
+export async function computeImageHash(buffer: Buffer): Promise<string | null> {
+  try {
+    const image = isIco(buffer) ? await selectIcoFrame(buffer) : sharp(buffer);
+    if (!image) return null;
+
+    // 9x8 grayscale pixels give 8 horizontal gradients per row
+    const pixels = await image
+      .flatten({ background: '#ffffff' })
+      .grayscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = 0n;
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const left = pixels[row * 9 + col] ?? 0;
+        const right = pixels[row * 9 + col + 1] ?? 0;
+        hash = (hash << 1n) | (left > right ? 1n : 0n);
+      }
+    }
+
+    return hash.toString(16).padStart(16, '0');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check decoded dimensions for images that can't be a real icon
+ * (tracking pixels, spacers, banners)
+ */
+function getDegenerateReason(width: number, height: number): string | undefined {
+  // Unknown dimensions (e.g. SVG without width/height/viewBox) are not degenerate
+  if (width === 0 && height === 0) return undefined;
+
+  if (width <= 1 || height <= 1) return `${width}x${height} pixel`;
+
+  const aspectRatio = Math.max(width, height) / Math.min(width, height);
+  if (aspectRatio > MAX_ICON_ASPECT_RATIO) return `extreme aspect ratio ${width}x${height}`;
+
+  return undefined;
+}
+
 /**
  * Validate that buffer contains valid image data
  */
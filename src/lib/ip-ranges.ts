@@ -0,0 +1,211 @@
+/**
+ * IP address range checks for SSRF protection
+ * Covers every IPv4 and IPv6 range that must never be reachable from the API
+ */
+
+import { isIP } from 'node:net';
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface Cidr extends ParsedIp {
+  prefix: number;
+}
+
+/**
+ * Special-purpose ranges (RFC 6890 and the IANA special-purpose registries)
+ */
+const RESERVED_IPV4_RANGES = [
+  '0.0.0.0/8', // "This" network, includes 0.0.0.0
+  '10.0.0.0/8', // Private
+  '100.64.0.0/10', // Carrier-grade NAT
+  '127.0.0.0/8', // Loopback
+  '169.254.0.0/16', // Link-local, includes cloud metadata endpoints
+  '172.16.0.0/12', // Private
+  '192.0.0.0/24', // IETF protocol assignments
+  '192.0.2.0/24', // TEST-NET-1
+  '192.88.99.0/24', // 6to4 relay anycast
+  '192.168.0.0/16', // Private
+  '198.18.0.0/15', // Benchmarking
+  '198.51.100.0/24', // TEST-NET-2
+  '203.0.113.0/24', // TEST-NET-3
+  '224.0.0.0/4', // Multicast
+  '240.0.0.0/4', // Reserved, includes broadcast
+].map(parseCidrOrThrow);
+
+const RESERVED_IPV6_RANGES = [
+  '::/96', // Unspecified, loopback and deprecated IPv4-compatible addresses
+  '100::/64', // Discard-only
+  '2001::/23', // IETF protocol assignments, includes Teredo
+  '2001:db8::/32', // Documentation
+  'fc00::/7', // Unique local
+  'fe80::/10', // Link-local
+  'fec0::/10', // Deprecated site-local
+  'ff00::/8', // Multicast
+].map(parseCidrOrThrow);
+
+/**
+ * IPv6 ranges that embed an IPv4 address, which is checked against the IPv4 table
+ */
+const IPV4_EMBEDDING_RANGES = [
+  { cidr: parseCidrOrThrow('::ffff:0:0/96'), offset: 0n }, // IPv4-mapped
+  { cidr: parseCidrOrThrow('64:ff9b::/96'), offset: 0n }, // NAT64
+  { cidr: parseCidrOrThrow('64:ff9b:1::/48'), offset: 0n }, // Local-use NAT64
+  { cidr: parseCidrOrThrow('2002::/16'), offset: 80n }, // 6to4
+];
+
+/**
+ * Options for {@link isAddressAllowed}
+ */
+export interface AddressPolicy {
+  blockReserved: boolean;
+  allowedCidrs?: string[]; // Exempt from the reserved range check
+  blockedCidrs?: string[]; // Always blocked, in addition to the reserved ranges
+}
+
+/**
+ * Check if an IP address literal is in a reserved (non-public) range
+ * Returns false for anything that isn't an IP address
+ */
+export function isReservedIp(address: string): boolean {
+  const ip = parseIp(address);
+  if (!ip) return false;
+
+  if (ip.version === 4) {
+    return RESERVED_IPV4_RANGES.some((cidr) => cidrContains(cidr, ip));
+  }
+
+  const embedded = extractEmbeddedIpv4(ip);
+  if (embedded) {
+    return RESERVED_IPV4_RANGES.some((cidr) => cidrContains(cidr, embedded));
+  }
+
+  return RESERVED_IPV6_RANGES.some((cidr) => cidrContains(cidr, ip));
+}
+
+/**
+ * Check if an IP address may be connected to under the given policy
+ * The allow list wins over the reserved ranges, the deny list wins over everything
+ */
+export function isAddressAllowed(address: string, policy: AddressPolicy): boolean {
+  const ip = parseIp(address);
+  if (!ip) return false;
+
+  if (matchesAnyCidr(ip, policy.blockedCidrs)) {
+    return false;
+  }
+
+  if (!policy.blockReserved || matchesAnyCidr(ip, policy.allowedCidrs)) {
+    return true;
+  }
+
+  return !isReservedIp(address);
+}
+
+/**
+ * Check if a string is valid CIDR notation (e.g. "10.0.0.0/8" or "fd00::/8")
+ * A plain address is accepted as a single-address range
+ */
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== null;
+}
+
+/**
+ * Check if an address or CIDR list entry matches, for both address families
+ * IPv4-mapped IPv6 addresses also match IPv4 ranges
+ */
+function matchesAnyCidr(ip: ParsedIp, cidrs: string[] | undefined): boolean {
+  if (!cidrs || cidrs.length === 0) return false;
+
+  const embedded = ip.version === 6 ? extractEmbeddedIpv4(ip) : null;
+
+  return cidrs.some((entry) => {
+    const cidr = parseCidr(entry);
+    if (!cidr) return false;
+    return cidrContains(cidr, ip) || (embedded !== null && cidrContains(cidr, embedded));
+  });
+}
+
+/**
+ * Extract the IPv4 address embedded in IPv4-mapped, NAT64 and 6to4 addresses
+ */
+function extractEmbeddedIpv4(ip: ParsedIp): ParsedIp | null {
+  for (const { cidr, offset } of IPV4_EMBEDDING_RANGES) {
+    if (cidrContains(cidr, ip)) {
+      return { version: 4, value: (ip.value >> offset) & 0xffffffffn };
+    }
+  }
+  return null;
+}
+
+function cidrContains(cidr: Cidr, ip: ParsedIp): boolean {
+  if (cidr.version !== ip.version) return false;
+
+  const bits = BigInt(ip.version === 4 ? 32 : 128);
+  const shift = bits - BigInt(cidr.prefix);
+  return ip.value >> shift === cidr.value >> shift;
+}
+
+function parseCidr(cidr: string): Cidr | null {
+  const [address = '', prefixPart] = cidr.trim().split('/');
+  const ip = parseIp(address);
+  if (!ip) return null;
+
+  const maxPrefix = ip.version === 4 ? 32 : 128;
+  const prefix = prefixPart === undefined ? maxPrefix : Number(prefixPart);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null;
+
+  return { ...ip, prefix };
+}
+
+function parseCidrOrThrow(cidr: string): Cidr {
+  const parsed = parseCidr(cidr);
+  if (!parsed) {
+    throw new Error(`Invalid CIDR: ${cidr}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address literal (IPv6 may be wrapped in brackets or carry a zone ID)
+ */
+function parseIp(address: string): ParsedIp | null {
+  const cleaned = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  switch (isIP(cleaned)) {
+    case 4:
+      return { version: 4, value: parseIpv4(cleaned) };
+    case 6:
+      return { version: 6, value: parseIpv6(cleaned) };
+    default:
+      return null;
+  }
+}
+
+function parseIpv4(address: string): bigint {
+  return address.split('.').reduce((value, octet) => (value << 8n) | BigInt(octet), 0n);
+}
+
+function parseIpv6(address: string): bigint {
+  let normalized = address.toLowerCase();
+
+  // Convert a trailing dotted IPv4 part into two hextets
+  const ipv4Match = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Match?.[1]) {
+    const ipv4 = parseIpv4(ipv4Match[1]);
+    const high = ((ipv4 >> 16n) & 0xffffn).toString(16);
+    const low = (ipv4 & 0xffffn).toString(16);
+    normalized = normalized.slice(0, -ipv4Match[1].length) + `${high}:${low}`;
+  }
+
+  const [head = '', tail] = normalized.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail ? tail.split(':') : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  const parts =
+    tail === undefined ? headParts : [...headParts, ...Array(missing).fill('0'), ...tailParts];
+
+  return parts.reduce((value, part) => (value << 16n) | BigInt(parseInt(part, 16)), 0n);
+}
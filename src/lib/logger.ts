@@ -106,6 +106,7 @@ export function logFaviconFetch(data: {
   url: string;
   faviconUrl?: string;
   source?: string;
+  scheme?: string; // Scheme discovery used, http after an HTTPS connection failure
   format?: string;
   size?: number;
   response?: string;
@@ -125,6 +126,7 @@ export function logFaviconFetch(data: {
       url: data.url,
       faviconUrl: data.faviconUrl,
       source: data.source,
+      scheme: data.scheme,
       format: data.format,
       response: data.response,
       size: data.size,
@@ -0,0 +1,87 @@
+/**
+ * Bounded in-memory LRU cache
+ * Limited by both entry count and total size, with a TTL per entry
+ */
+
+export interface LruCacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface LruCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V, ttl: number, bytes: number): void; // ttl in ms
+  delete(key: string): void;
+  clear(): void;
+  readonly size: number;
+  readonly bytes: number;
+}
+
+interface Entry<V> {
+  value: V;
+  bytes: number;
+  expiresAt: number;
+}
+
+/**
+ * Create an LRU cache
+ * Least recently used entries are evicted once either limit is exceeded. Entries
+ * larger than maxBytes, or with a TTL of 0, are not stored.
+ */
+export function createLruCache<V>(options: LruCacheOptions): LruCache<V> {
+  // Maps iterate in insertion order, so re-inserting on access keeps the LRU entry first
+  const entries = new Map<string, Entry<V>>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      entries.delete(key);
+      totalBytes -= entry.bytes;
+    }
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return undefined;
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, ttl, bytes) {
+      remove(key);
+      if (ttl <= 0 || bytes > options.maxBytes || options.maxEntries <= 0) return;
+
+      entries.set(key, { value, bytes, expiresAt: Date.now() + ttl });
+      totalBytes += bytes;
+
+      for (const oldest of entries.keys()) {
+        if (entries.size <= options.maxEntries && totalBytes <= options.maxBytes) break;
+        remove(oldest);
+      }
+    },
+
+    delete: remove,
+
+    clear() {
+      entries.clear();
+      totalBytes = 0;
+    },
+
+    get size() {
+      return entries.size;
+    },
+
+    get bytes() {
+      return totalBytes;
+    },
+  };
+}
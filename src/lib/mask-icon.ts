@@ -0,0 +1,52 @@
+/**
+ * Safari pinned tab icons (`<link rel="mask-icon" color="...">`)
+ * The SVG is only used as a mask: Safari fills every non-transparent pixel with the
+ * declared color. Served as-is the artwork is an all-black silhouette.
+ */
+
+/**
+ * ID of the filter that fills mask icons, unlikely to clash with the icon's own IDs
+ */
+const MASK_FILTER_ID = 'favicon-api-mask-color';
+
+/**
+ * Validate a declared icon color (mask icon `color`, Windows `TileColor`)
+ * Only hex colors, named colors and rgb()/hsl() functions are accepted, since
+ * mask icon colors are written into the SVG. Returns undefined for anything else.
+ */
+export function parseIconColor(color: string | undefined): string | undefined {
+  const trimmed = color?.trim();
+  if (!trimmed) return undefined;
+
+  const isColor =
+    /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(trimmed) ||
+    /^[a-z]+$/i.test(trimmed) ||
+    /^(?:rgba?|hsla?)\([\d\s.,%/]+\)$/i.test(trimmed);
+
+  return isColor ? trimmed : undefined;
+}
+
+/**
+ * Fill a mask icon SVG with its color, the way Safari renders it
+ * The content is wrapped in a filter that floods the color over the icon's alpha channel.
+ * Returns the SVG unchanged if it has no root `<svg>` element.
+ */
+export function fillMaskIcon(svg: string, color: string): string {
+  const openTag = /<svg\b(?:[^>"']|"[^"]*"|'[^']*')*>/i.exec(svg);
+  const closeStart = svg.toLowerCase().lastIndexOf('</svg');
+  if (!openTag || closeStart < openTag.index + openTag[0].length) return svg;
+
+  const contentStart = openTag.index + openTag[0].length;
+  const filter =
+    `<defs><filter id="${MASK_FILTER_ID}" color-interpolation-filters="sRGB">` +
+    `<feFlood flood-color="${color}"/><feComposite in2="SourceAlpha" operator="in"/>` +
+    `</filter></defs><g filter="url(#${MASK_FILTER_ID})">`;
+
+  return (
+    svg.slice(0, contentStart) +
+    filter +
+    svg.slice(contentStart, closeStart) +
+    '</g>' +
+    svg.slice(closeStart)
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Registry of known placeholder icons
+ * Fallback providers return a generic globe for unknown domains, and site builders
+ * serve the same default icon for every site that never uploaded one. Neither tells
+ * the user anything about the website, so matches are treated as misses.
+ */
+
+export interface PlaceholderIcon {
+  name: string;
+  hash: string; // 64-bit perceptual hash as 16 hex characters (see computeImageHash)
+}
+
+/**
+ * Known placeholder icons
+ * Add entries with the hash printed by `bun run placeholder-hash <file-or-url>`,
+ * or extend the registry at runtime via PLACEHOLDER_HASHES.
+ */
+export const KNOWN_PLACEHOLDERS: PlaceholderIcon[] = [
+  // Chrome's default favicon, also served by Google's favicon service for unknown domains
+  { name: 'default-globe', hash: 'b2b2ccccccccf0b2' },
+  // wp-includes/images/w-logo-blue-white-bg.png, where WordPress redirects /favicon.ico
+  { name: 'wordpress-default', hash: 'f0f8696da4b692f0' },
+  // favicon.ico of the create-next-app templates, common on Vercel deployments
+  { name: 'nextjs-default', hash: 'f0cc8ecc8e96d4f0' },
+  // favicon.svg of the Shopify Hydrogen storefront starter
+  { name: 'hydrogen-default', hash: 'e0b669d23098c670' },
+];
+
+/**
+ * Maximum number of differing hash bits for an image to still match a placeholder
+ */
+const MAX_HASH_DISTANCE = 6;
+
+/**
+ * Parse a placeholder entry in the form `name=hash` or just `hash`
+ * Returns null if the hash isn't 16 hex characters
+ */
+export function parsePlaceholderIcon(entry: string): PlaceholderIcon | null {
+  const separator = entry.lastIndexOf('=');
+  const name = separator === -1 ? 'custom' : entry.slice(0, separator).trim();
+  const hash = entry
+    .slice(separator + 1)
+    .trim()
+    .toLowerCase();
+
+  if (!name || !/^[0-9a-f]{16}$/.test(hash)) return null;
+
+  return { name, hash };
+}
+
+/**
+ * Find the placeholder icon an image hash matches, if any
+ */
+export function findPlaceholder(
+  hash: string,
+  extraPlaceholders: PlaceholderIcon[] = []
+): PlaceholderIcon | null {
+  return (
+    [...KNOWN_PLACEHOLDERS, ...extraPlaceholders].find(
+      (placeholder) => hammingDistance(hash, placeholder.hash) <= MAX_HASH_DISTANCE
+    ) ?? null
+  );
+}
+
+function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return distance;
+}
@@ -0,0 +1,72 @@
+/**
+ * Redis cache store
+ * Works with any server speaking the Redis protocol (Redis, Valkey, KeyDB, ...).
+ * Entries expire on the server, so the TTL is enforced for every instance.
+ */
+
+import { RedisClient } from 'bun';
+import type { CacheStore } from './cache-store';
+
+/**
+ * Time to wait for the server to accept a connection (ms)
+ */
+const CONNECTION_TIMEOUT = 2000;
+
+/**
+ * Time to wait after a failed connection before trying again (ms)
+ * Until then commands fail right away, so an unreachable server only costs a cache miss
+ */
+const RECONNECT_INTERVAL = 5000;
+
+export function createRedisCacheStore(url: string): CacheStore {
+  // Commands are rejected instead of queued while disconnected, and the store
+  // reconnects itself so failed attempts can be spaced out
+  const client = new RedisClient(url, {
+    connectionTimeout: CONNECTION_TIMEOUT,
+    enableOfflineQueue: false,
+    autoReconnect: false,
+  });
+
+  let connecting: Promise<void> | null = null;
+  let lastFailure = 0;
+
+  const connect = async () => {
+    if (client.connected) return;
+
+    if (!connecting) {
+      if (Date.now() - lastFailure < RECONNECT_INTERVAL) {
+        throw new Error('Redis is unreachable, waiting before reconnecting');
+      }
+
+      connecting = client
+        .connect()
+        .catch((error) => {
+          lastFailure = Date.now();
+          throw error;
+        })
+        .finally(() => {
+          connecting = null;
+        });
+    }
+
+    await connecting;
+  };
+
+  return {
+    async get(key) {
+      await connect();
+      const value = await client.getBuffer(key);
+      return value ? Buffer.from(value) : null;
+    },
+
+    async set(key, value, ttl) {
+      await connect();
+      await client.set(key, value, 'PX', ttl);
+    },
+
+    async delete(key) {
+      await connect();
+      await client.del(key);
+    },
+  };
+}
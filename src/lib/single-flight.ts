@@ -0,0 +1,21 @@
+/**
+ * Single-flight request coalescing
+ * Concurrent calls with the same key share one run of the work instead of
+ * repeating it. The key is released as soon as the run settles, so later
+ * calls start fresh (caching results is the favicon cache's job).
+ */
+
+export type SingleFlight<T> = (key: string, run: () => Promise<T>) => Promise<T>;
+
+export function createSingleFlight<T>(): SingleFlight<T> {
+  const inFlight = new Map<string, Promise<T>>();
+
+  return (key, run) => {
+    const existing = inFlight.get(key);
+    if (existing) return existing;
+
+    const promise = run().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+}
@@ -2,40 +2,49 @@
  * Input validation and SSRF protection using Zod
  */
 
+import { isIP } from 'node:net';
+import { domainToUnicode } from 'node:url';
 import { z } from 'zod';
+import type { NormalizedTarget } from '../types';
+import type { AddressPolicy } from './ip-ranges';
+import { isAddressAllowed } from './ip-ranges';
 
 /**
- * Check if hostname is a private IP address
+ * Check if a URL may be requested: http(s) only, and no reserved IPs if blocked
+ * Hostnames are only checked once resolved (see safeFetch), IP literals are checked here.
+ * The URL parser already normalizes decimal, octal and hex IPv4 notations to dotted quads.
  */
-function isPrivateIp(hostname: string): boolean {
-  // Localhost
-  if (hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '::1') {
-    return true;
+export function isUrlAllowed(url: URL, policy: AddressPolicy): boolean {
+  // Check protocol
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return false;
+  }
+  // Check that hostname is not empty
+  if (!url.hostname) {
+    return false;
   }
 
-  // Private IP ranges
-  const privateRanges = [
-    /^10\./,
-    /^172\.(1[6-9]|2[0-9]|3[01])\./,
-    /^192\.168\./,
-    /^169\.254\./, // Link-local
-    /^fc00:/, // IPv6 unique local
-    /^fe80:/, // IPv6 link-local
-  ];
-
-  return privateRanges.some((range) => range.test(hostname));
+  // SSRF protection (IPv6 hostnames are wrapped in brackets)
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname)) {
+    return isAddressAllowed(hostname, policy);
+  }
+  if (policy.blockReserved && (hostname === 'localhost' || hostname.endsWith('.localhost'))) {
+    return false;
+  }
+  return true;
 }
 
 /**
  * Custom Zod refinement for URL validation with SSRF protection
  */
-const createUrlValidator = (blockPrivateIps: boolean) =>
+const createUrlValidator = (policy: AddressPolicy) =>
   z
     .string({ message: 'URL is required' })
     .min(1, 'URL is required')
     .transform((url) => {
-      // Add protocol if missing
-      return url.startsWith('http') ? url : `https://${url}`;
+      // Canonical form, so equivalent spellings of a target are validated and handled alike
+      return normalizeTarget(url)?.url ?? withDefaultScheme(url);
     })
     .pipe(
       z
@@ -44,20 +53,7 @@ const createUrlValidator = (blockPrivateIps: boolean) =>
         .refine(
           (url) => {
             try {
-              const parsed = new URL(url);
-              // Check protocol
-              if (!['http:', 'https:'].includes(parsed.protocol)) {
-                return false;
-              }
-              // Check that hostname is not empty
-              if (!parsed.hostname) {
-                return false;
-              }
-              // SSRF protection
-              if (blockPrivateIps && isPrivateIp(parsed.hostname)) {
-                return false;
-              }
-              return true;
+              return isUrlAllowed(new URL(url), policy);
             } catch {
               // If URL constructor throws, it's an invalid URL
               return false;
@@ -70,9 +66,9 @@ const createUrlValidator = (blockPrivateIps: boolean) =>
     );
 
 // Query parameter schema
-export const queryParamsSchema = (blockPrivateIps: boolean) =>
+export const queryParamsSchema = (policy: AddressPolicy) =>
   z.object({
-    url: createUrlValidator(blockPrivateIps),
+    url: createUrlValidator(policy),
     response: z.enum(['image', 'json']).default('image'),
     size: z
       .string()
@@ -86,7 +82,21 @@ export const queryParamsSchema = (blockPrivateIps: boolean) =>
           .max(512, 'Size must be between 16 and 512 pixels')
           .optional()
       ),
+    dpr: z
+      .string()
+      .optional()
+      .transform((val) => (val ? Number(val) : undefined))
+      .pipe(
+        z
+          .number()
+          .min(1, 'DPR must be between 1 and 3')
+          .max(3, 'DPR must be between 1 and 3')
+          .optional()
+      ),
     format: z.enum(['png', 'jpg', 'webp']).optional(),
+    purpose: z.enum(['any', 'maskable', 'monochrome']).optional(),
+    theme: z.enum(['light', 'dark']).optional(),
+    variant: z.enum(['mask']).optional(),
     default: z.url('Default image must be a valid URL').optional(),
   });
 
@@ -95,3 +105,45 @@ export type QueryParams = z.infer<ReturnType<typeof queryParamsSchema>>;
 export function isDataUrl(url: string): boolean {
   return url.startsWith('data:');
 }
+
+/**
+ * Check if a URL starts with an explicit http:// or https:// scheme
+ */
+export function hasHttpScheme(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Add https:// to URLs without a scheme (bare domains)
+ */
+export function withDefaultScheme(url: string): string {
+  return hasHttpScheme(url) ? url : `https://${url}`;
+}
+
+/**
+ * Normalize a target URL or bare domain to its canonical form
+ * Adds https:// if there is no scheme, converts IDNs to ASCII (punycode), lowercases
+ * the host and strips trailing dots, default ports, credentials and the fragment,
+ * so `Bücher.de`, `xn--bcher-kva.de` and `BÜCHER.de.:443/` are the same target.
+ * Returns null if the input isn't a valid http(s) URL
+ */
+export function normalizeTarget(input: string): NormalizedTarget | null {
+  let url: URL;
+  try {
+    url = new URL(withDefaultScheme(input.trim()));
+  } catch {
+    return null;
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) return null;
+
+  // The URL parser already applies IDNA, lowercasing and default port removal
+  const host = url.hostname.replace(/\.+$/, '');
+  if (!host) return null;
+
+  url.hostname = host;
+  url.username = '';
+  url.password = '';
+  url.hash = '';
+
+  return { url: url.toString(), host, hostUnicode: domainToUnicode(host) || host };
+}
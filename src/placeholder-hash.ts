@@ -0,0 +1,23 @@
+/**
+ * Print the perceptual hash of an image, for adding placeholder icons to the registry
+ * Usage: bun run placeholder-hash <file-or-url> [...]
+ */
+
+import { computeImageHash } from './lib/image-processor';
+
+const inputs = process.argv.slice(2);
+if (inputs.length === 0) {
+  // eslint-disable-next-line no-console
+  console.error('Usage: bun run placeholder-hash <file-or-url> [...]');
+  process.exit(1);
+}
+
+for (const input of inputs) {
+  const buffer = /^https?:\/\//.test(input)
+    ? Buffer.from(await (await fetch(input)).arrayBuffer())
+    : Buffer.from(await Bun.file(input).arrayBuffer());
+
+  const hash = await computeImageHash(buffer);
+  // eslint-disable-next-line no-console
+  console.log(`${hash ?? 'undecodable'}  ${input}`);
+}
@@ -6,8 +6,112 @@ export interface FaviconSource {
   url: string;
   size?: number;
   format?: string;
-  source: 'link-tag' | 'manifest' | 'fallback' | 'fallback-api';
+  source:
+    | 'link-tag'
+    | 'manifest'
+    | 'fallback'
+    | 'browserconfig' // Windows tile logos from browserconfig.xml
+    | 'ms-tile' // <meta name="msapplication-TileImage">
+    | 'og-logo' // <meta property="og:logo">
+    | 'og-image' // <meta property="og:image">
+    | 'twitter-image' // <meta name="twitter:image">
+    | 'fallback-api';
+  rel?: string; // Link rel, e.g. "icon" or "apple-touch-icon"
+  purpose?: IconPurpose[]; // Only set for manifest icons
+  media?: string; // Link media query, e.g. "(prefers-color-scheme: dark)"
+  color?: string; // Fill color of Safari mask icons
+  tileColor?: string; // Background color of Windows tile images
   score: number;
+  reason?: string; // Why the candidate got its score
+  timeout?: number; // Fetch timeout in ms, overrides REQUEST_TIMEOUT (fallback providers)
+}
+
+/**
+ * Icon a website declares, before it's scored for a request
+ */
+export type DiscoveredIcon = Omit<FaviconSource, 'score' | 'reason' | 'timeout'> & {
+  source: Exclude<FaviconSource['source'], 'fallback' | 'fallback-api'>;
+};
+
+/**
+ * Everything fetched from a website to find its favicons
+ * Independent of the ranking options, so requests for the same target can share it
+ */
+export interface SiteDiscovery {
+  url: string; // Target discovery ran for
+  icons: DiscoveredIcon[]; // Link tags, manifest icons, browserconfig tiles and meta tag images
+  baseUrl: string; // Origin after redirects, where the well-known locations are
+  redirectChain: string[]; // Redirects followed to reach the HTML page
+  connectionFailed: boolean; // The HTML page couldn't be reached at the connect/TLS level
+}
+
+/**
+ * Ranked favicon candidates found for a website
+ */
+export interface DiscoveryResult {
+  favicons: FaviconSource[];
+  redirectChain: string[]; // Redirects followed to reach the HTML page
+  connectionFailed?: boolean; // The HTML page couldn't be reached at the connect/TLS level
+}
+
+/**
+ * Favicon that was successfully fetched from one of the candidates
+ */
+export interface FetchedFavicon {
+  data: Buffer;
+  format: string;
+  source: FaviconSource['source'];
+  url: string;
+  reason?: string;
+  color?: string; // Fill color of Safari mask icons
+  tileColor?: string; // Background color of Windows tile images
+  redirectChain?: string[]; // Redirects followed to reach the favicon itself
+}
+
+/**
+ * Outcome of looking up the best favicon for a website
+ */
+export interface FaviconLookup {
+  discovery: DiscoveryResult; // Discovery on the host the favicon came from
+  favicon: FetchedFavicon | null;
+  host: string; // Host the favicon came from, which may be a fallback host
+  scheme: 'http' | 'https'; // Scheme discovery used, http if https couldn't connect
+}
+
+/**
+ * Manifest icon purpose (https://www.w3.org/TR/appmanifest/#purpose-member)
+ */
+export type IconPurpose = 'any' | 'maskable' | 'monochrome';
+
+/**
+ * Color scheme of the UI the icon is displayed in
+ */
+export type IconTheme = 'light' | 'dark';
+
+/**
+ * Icon variant that can be requested instead of the regular favicon
+ * mask: the Safari pinned tab icon, filled with its declared color
+ */
+export type IconVariant = 'mask';
+
+/**
+ * Options that influence favicon discovery and ranking
+ */
+export interface DiscoveryOptions {
+  size?: number; // Target size in pixels, DPR already applied
+  purpose?: IconPurpose;
+  theme?: IconTheme; // Prefer icons for this color scheme, light variants are preferred by default
+  variant?: IconVariant;
+  schemeImplied?: boolean; // The URL had no scheme, so https:// was assumed (allows HTTP fallback)
+}
+
+/**
+ * Canonical form of a requested target (see normalizeTarget)
+ */
+export interface NormalizedTarget {
+  url: string; // e.g. "https://xn--bcher-kva.de/"
+  host: string; // ASCII (punycode) host, e.g. "xn--bcher-kva.de"
+  hostUnicode: string; // e.g. "bücher.de"
 }
 
 export interface FaviconResult {
@@ -18,12 +122,24 @@ export interface FaviconResult {
   format: string;
   bytes: number; // File size in bytes
   source: string;
+  reason?: string; // Why this favicon was chosen
+  color?: string; // Fill color, for Safari mask icons
+  tileColor?: string; // Background color the site declares for Windows tile images
+  target?: NormalizedTarget; // The requested website, normalized
+  host?: string; // Host the favicon was discovered on, e.g. the apex domain for a subdomain
+  scheme?: 'http' | 'https'; // Scheme used for discovery
+  redirects?: {
+    page: string[]; // Redirects followed to reach the HTML page
+    favicon: string[]; // Redirects followed to reach the favicon
+  };
 }
 
 export interface ImageProcessOptions {
   size?: number;
   format?: 'png' | 'jpg' | 'jpeg' | 'ico' | 'webp' | 'svg';
   quality?: number;
+  theme?: IconTheme; // Resolve prefers-color-scheme rules in SVGs for this theme
+  maskColor?: string; // Fill SVG mask icons with this color
 }
 
 export interface ProcessedImage {
@@ -34,6 +150,15 @@ export interface ProcessedImage {
   bytes: number; // File size in bytes
 }
 
+/**
+ * Decoded image dimensions, used to re-rank fetched candidates
+ */
+export interface ImageInspection {
+  width: number;
+  height: number;
+  degenerate?: string; // Why the image can't be used as an icon
+}
+
 export type OutputFormat = 'image' | 'json';
 
 /**
@@ -0,0 +1,80 @@
+/**
+ * browserconfig.xml discovery integration tests
+ * Runs discovery against a local fixture site
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { findFavicons } from '../../src/lib/favicon-finder';
+import { fixtureConfig, html, useFixtureSites } from './setup';
+
+const config = fixtureConfig;
+
+const browserconfig = () =>
+  new Response(
+    `<?xml version="1.0" encoding="utf-8"?>
+    <browserconfig><msapplication><tile>
+      <square150x150logo src="mstile-150x150.png"/>
+      <square310x310logo src="mstile-310x310.png"/>
+      <TileColor>#2b5797</TileColor>
+    </tile></msapplication></browserconfig>`,
+    { headers: { 'Content-Type': 'application/xml' } }
+  );
+
+const tiles = (favicons: { source: string; url: string }[]) =>
+  favicons.filter((f) => f.source === 'browserconfig').map((f) => new URL(f.url).pathname);
+
+describe('browserconfig.xml Discovery', () => {
+  const startSite = useFixtureSites();
+
+  test('should use the browserconfig declared via msapplication-config', async () => {
+    const site = startSite({
+      '/': () => html('<meta name="msapplication-config" content="/ms/browserconfig.xml">'),
+      '/ms/browserconfig.xml': browserconfig,
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+
+    // Tile sources resolve against the browserconfig URL
+    expect(tiles(favicons)).toEqual(['/ms/mstile-310x310.png', '/ms/mstile-150x150.png']);
+    expect(favicons.find((f) => f.source === 'browserconfig')?.tileColor).toBe('#2b5797');
+  });
+
+  test('should probe browserconfig.xml at the root', async () => {
+    const site = startSite({
+      '/': () => html(''),
+      '/browserconfig.xml': browserconfig,
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+
+    expect(tiles(favicons)).toEqual(['/mstile-310x310.png', '/mstile-150x150.png']);
+  });
+
+  test('should not probe when the page opts out', async () => {
+    let probed = false;
+    const site = startSite({
+      '/': () => html('<meta name="msapplication-config" content="none">'),
+      '/browserconfig.xml': () => {
+        probed = true;
+        return browserconfig();
+      },
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+
+    expect(tiles(favicons)).toEqual([]);
+    expect(probed).toBe(false);
+  });
+
+  test('should rank tiles with the normal size scoring, below link tags', async () => {
+    const site = startSite({
+      '/': () => html('<link rel="icon" href="/icon-150.png" sizes="150x150" type="image/png">'),
+      '/browserconfig.xml': browserconfig,
+    });
+
+    const { favicons } = await findFavicons(site.origin, config, { size: 150 });
+    const paths = favicons.map((f) => new URL(f.url).pathname);
+
+    expect(paths.slice(0, 2)).toEqual(['/icon-150.png', '/mstile-150x150.png']);
+  });
+});
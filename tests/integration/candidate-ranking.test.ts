@@ -0,0 +1,607 @@
+/**
+ * Candidate ranking integration tests
+ * Runs discovery against a local fixture site
+ */
+
+import { describe, test, expect } from 'bun:test';
+import sharp from 'sharp';
+import { createApp } from '../../src/index';
+import { findFavicons, fetchBestFavicon } from '../../src/lib/favicon-finder';
+import { fixtureConfig, html, image, png, useFixtureSites } from './setup';
+import type { FaviconResult, FaviconSource } from '../../src/types';
+
+const config = fixtureConfig;
+
+const delayed = async (ms: number, response: () => Response | Promise<Response>) => {
+  await Bun.sleep(ms);
+  return response();
+};
+
+const paths = (favicons: FaviconSource[]) => favicons.map((f) => new URL(f.url).pathname);
+
+const ICON_LINKS = `
+  <link rel="icon" href="/icon-16.png" sizes="16x16" type="image/png">
+  <link rel="icon" href="/icon-32.ico" sizes="32x32" type="image/x-icon">
+  <link rel="icon" href="/icon-32.png" sizes="32x32" type="image/png">
+  <link rel="icon" href="/icon-512.png" sizes="512x512" type="image/png">
+`;
+
+describe('Candidate Ranking', () => {
+  const startSite = useFixtureSites();
+
+  test('should prefer the largest icon when no size is requested', async () => {
+    const site = startSite({ '/': () => html(ICON_LINKS) });
+
+    const { favicons } = await findFavicons(site.origin, config);
+
+    expect(paths(favicons)[0]).toBe('/icon-512.png');
+  });
+
+  test('should prefer an exact match for the requested size', async () => {
+    const site = startSite({ '/': () => html(ICON_LINKS) });
+
+    const { favicons } = await findFavicons(site.origin, config, { size: 16 });
+
+    expect(paths(favicons)[0]).toBe('/icon-16.png');
+    expect(favicons[0]!.reason).toContain('exactly matches');
+  });
+
+  test('should prefer the smallest icon at least the requested size over upscaling', async () => {
+    const site = startSite({ '/': () => html(ICON_LINKS) });
+
+    const { favicons } = await findFavicons(site.origin, config, { size: 24 });
+
+    // 32px beats 16px (would need upscaling) and 512px (needless download)
+    expect(paths(favicons)[0]).toBe('/icon-32.png');
+  });
+
+  test('should break ties between equally sized icons by format', async () => {
+    const site = startSite({ '/': () => html(ICON_LINKS) });
+
+    const { favicons } = await findFavicons(site.origin, config, { size: 32 });
+    const ranked = paths(favicons);
+
+    expect(ranked.indexOf('/icon-32.png')).toBeLessThan(ranked.indexOf('/icon-32.ico'));
+  });
+
+  test('should rank /favicon.ico above a huge declared icon for small sizes', async () => {
+    const site = startSite({
+      '/': () => html('<link rel="icon" href="/icon-512.png" sizes="512x512" type="image/png">'),
+    });
+
+    const { favicons } = await findFavicons(site.origin, config, { size: 16 });
+
+    expect(paths(favicons)[0]).toBe('/favicon.ico');
+    expect(favicons[0]!.source).toBe('fallback');
+  });
+
+  test('should keep the port in fallback candidates', async () => {
+    const site = startSite({ '/': () => html('') });
+
+    const { favicons } = await findFavicons(site.origin, { ...config, USE_FALLBACK_API: true });
+    const urls = favicons.map((favicon) => favicon.url);
+
+    expect(urls).toContain(`${site.origin}/favicon.ico`);
+    expect(urls).toContain(`${site.origin}/apple-touch-icon.png`);
+    expect(urls).toContain(
+      `https://www.google.com/s2/favicons?domain=${encodeURIComponent(site.origin)}&sz=64`
+    );
+  });
+
+  describe('Device Pixel Ratio', () => {
+    const DPR_ROUTES = {
+      '/': () =>
+        html(`
+          <link rel="icon" href="/icon-16.png" sizes="16x16" type="image/png">
+          <link rel="icon" href="/icon-32.png" sizes="32x32" type="image/png">
+          <link rel="icon" href="/icon-512.png" sizes="512x512" type="image/png">
+        `),
+      '/icon-16.png': () => png(16),
+      '/icon-32.png': () => png(32),
+      '/icon-512.png': () => png(512),
+    };
+
+    const request = (path: string) =>
+      createApp(config).fetch(new Request(`http://localhost/${path}`));
+
+    test('should rank and report candidates by the size in actual pixels', async () => {
+      const site = startSite(DPR_ROUTES);
+
+      const response = await request(`${site.origin}?size=16&dpr=2&response=json`);
+      const data = (await response.json()) as FaviconResult;
+
+      expect(response.status).toBe(200);
+      expect(new URL(data.sourceUrl).pathname).toBe('/icon-32.png');
+      expect(data.reason).toBe('32px exactly matches 32px target');
+      expect(new URL(data.url).searchParams.get('dpr')).toBe('2');
+    });
+
+    test('should output images at the size in actual pixels', async () => {
+      const site = startSite(DPR_ROUTES);
+
+      const response = await request(`${site.origin}?size=16&dpr=3`);
+      const metadata = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+
+      expect(response.status).toBe(200);
+      expect([metadata.width, metadata.height]).toEqual([48, 48]);
+    });
+
+    test('should accept fractional ratios from 1 to 3', async () => {
+      const site = startSite(DPR_ROUTES);
+
+      for (const [dpr, width] of [
+        ['1', 32],
+        ['1.5', 48],
+        ['3', 96],
+      ] as const) {
+        const response = await request(`${site.origin}?size=32&dpr=${dpr}&response=json`);
+        expect(response.status).toBe(200);
+        expect(((await response.json()) as FaviconResult).width).toBe(width);
+      }
+    });
+
+    test('should reject ratios outside 1 to 3', async () => {
+      for (const dpr of ['0.5', '3.5']) {
+        const response = await request(`example.com?dpr=${dpr}`);
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as { error: string }).error).toBe(
+          'DPR must be between 1 and 3'
+        );
+      }
+    });
+
+    test('should reject non-numeric ratios', async () => {
+      const response = await request('example.com?dpr=abc');
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as { error: string }).error).toBeDefined();
+    });
+  });
+
+  describe('Decoded Dimensions', () => {
+    test('should re-rank candidates whose declared size is wrong', async () => {
+      const site = startSite({
+        '/': (origin) =>
+          html(`
+            <link rel="icon" href="${origin}/liar.png" sizes="192x192" type="image/png">
+            <link rel="icon" href="${origin}/honest.png" sizes="128x128" type="image/png">
+          `),
+        '/liar.png': () => png(32),
+        '/honest.png': () => png(128),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      expect(paths(favicons)[0]).toBe('/liar.png');
+
+      const best = await fetchBestFavicon(favicons, config);
+      expect(new URL(best!.url).pathname).toBe('/honest.png');
+    });
+
+    test('should fetch lower-ranked candidates that may be larger than declared', async () => {
+      const site = startSite({
+        '/': (origin) =>
+          html(`
+            <link rel="icon" href="${origin}/over.png" sizes="512x512" type="image/png">
+            <link rel="icon" href="${origin}/under.png" sizes="16x16" type="image/png">
+          `),
+        '/over.png': () => png(32),
+        '/under.png': () => png(256),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const best = await fetchBestFavicon(favicons, { ...config, FETCH_CONCURRENCY: 1 });
+
+      expect(new URL(best!.url).pathname).toBe('/under.png');
+    });
+
+    test('should report the decoded size in the reason', async () => {
+      const site = startSite({
+        '/': (origin) =>
+          html(`<link rel="icon" href="${origin}/liar.png" sizes="192x192" type="image/png">`),
+        '/liar.png': () => png(32),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config, { size: 64 });
+      const best = await fetchBestFavicon(favicons, config, { size: 64 });
+
+      expect(best!.reason).toContain('decoded as 32x32');
+    });
+
+    test('should reject 1x1 and fully transparent images', async () => {
+      const site = startSite({
+        '/': (origin) =>
+          html(`
+            <link rel="icon" href="${origin}/pixel.png" sizes="512x512" type="image/png">
+            <link rel="icon" href="${origin}/transparent.png" sizes="256x256" type="image/png">
+            <link rel="icon" href="${origin}/real.png" sizes="32x32" type="image/png">
+          `),
+        '/pixel.png': () => png(1),
+        '/transparent.png': () => png(256, { r: 0, g: 0, b: 0, alpha: 0 }),
+        '/real.png': () => png(32),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const best = await fetchBestFavicon(favicons, config);
+
+      expect(new URL(best!.url).pathname).toBe('/real.png');
+    });
+
+    test('should return null when every candidate is degenerate', async () => {
+      const site = startSite({
+        '/': (origin) => html(`<link rel="icon" href="${origin}/pixel.png" type="image/png">`),
+        '/pixel.png': () => png(1),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+
+      expect(await fetchBestFavicon(favicons, config)).toBeNull();
+    });
+  });
+
+  describe('Concurrent Fetching', () => {
+    test('should not wait for hanging candidates one after another', async () => {
+      const site = startSite({
+        '/': (origin) =>
+          html(`
+            <link rel="icon" href="${origin}/slow-1.png" sizes="512x512" type="image/png">
+            <link rel="icon" href="${origin}/slow-2.png" sizes="256x256" type="image/png">
+            <link rel="icon" href="${origin}/slow-3.png" sizes="192x192" type="image/png">
+            <link rel="icon" href="${origin}/fast.png" sizes="32x32" type="image/png">
+          `),
+        '/slow-1.png': () => delayed(700, () => new Response('gone', { status: 404 })),
+        '/slow-2.png': () => delayed(700, () => new Response('gone', { status: 404 })),
+        '/slow-3.png': () => delayed(700, () => new Response('gone', { status: 404 })),
+        '/fast.png': () => png(32),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const start = Date.now();
+      const best = await fetchBestFavicon(favicons, { ...config, FETCH_CONCURRENCY: 4 });
+
+      expect(new URL(best!.url).pathname).toBe('/fast.png');
+      // Sequential fetching would take at least 2100ms
+      expect(Date.now() - start).toBeLessThan(1500);
+    });
+
+    test('should resolve to the best-ranked candidate even if a lower one finishes first', async () => {
+      const site = startSite({
+        '/': (origin) =>
+          html(`
+            <link rel="icon" href="${origin}/best.png" sizes="128x128" type="image/png">
+            <link rel="icon" href="${origin}/worse.png" sizes="64x64" type="image/png">
+          `),
+        '/best.png': () => delayed(200, () => png(128)),
+        '/worse.png': () => png(64),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const best = await fetchBestFavicon(favicons, { ...config, FETCH_CONCURRENCY: 4 });
+
+      expect(new URL(best!.url).pathname).toBe('/best.png');
+    });
+
+    test('should resolve without waiting for candidates that cannot win', async () => {
+      const site = startSite({
+        '/': (origin) =>
+          html(`
+            <link rel="icon" href="${origin}/best.png" sizes="512x512" type="image/png">
+            <link rel="icon" href="${origin}/slow.png" sizes="64x64" type="image/png">
+          `),
+        // Even if the 64px icon decodes larger, it can at best tie with the top-ranked one
+        '/best.png': () => png(512),
+        '/slow.png': () => delayed(1500, () => png(64)),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const start = Date.now();
+      const best = await fetchBestFavicon(favicons, { ...config, FETCH_CONCURRENCY: 4 });
+
+      expect(new URL(best!.url).pathname).toBe('/best.png');
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    test('should wait for under-declared candidates regardless of fetch timing', async () => {
+      for (const delay of [0, 300]) {
+        const site = startSite({
+          '/': (origin) =>
+            html(`
+              <link rel="icon" href="${origin}/over.png" sizes="512x512" type="image/png">
+              <link rel="icon" href="${origin}/under.png" sizes="16x16" type="image/png">
+            `),
+          '/over.png': () => png(32),
+          '/under.png': () => delayed(delay, () => png(256)),
+        });
+
+        const { favicons } = await findFavicons(site.origin, config);
+        const best = await fetchBestFavicon(favicons, { ...config, FETCH_CONCURRENCY: 4 });
+
+        expect(new URL(best!.url).pathname).toBe('/under.png');
+        site.stop();
+      }
+    });
+
+    test('should still fetch one at a time with FETCH_CONCURRENCY=1', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const track = async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await Bun.sleep(50);
+        inFlight--;
+        return new Response('gone', { status: 404 });
+      };
+
+      const site = startSite({
+        '/': (origin) =>
+          html(`
+            <link rel="icon" href="${origin}/a.png" sizes="64x64" type="image/png">
+            <link rel="icon" href="${origin}/b.png" sizes="32x32" type="image/png">
+          `),
+        '/a.png': track,
+        '/b.png': track,
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      await fetchBestFavicon(favicons, { ...config, FETCH_CONCURRENCY: 1 });
+
+      expect(maxInFlight).toBe(1);
+    });
+  });
+
+  describe('Color Scheme Variants', () => {
+    const THEMED_LINKS = `
+      <link rel="icon" href="/dark.png" sizes="32x32" type="image/png" media="(prefers-color-scheme: dark)">
+      <link rel="icon" href="/light.png" sizes="32x32" type="image/png" media="(prefers-color-scheme: light)">
+      <link rel="icon" href="/plain.png" sizes="32x32" type="image/png">
+    `;
+
+    test('should record the media attribute of link tags', async () => {
+      const site = startSite({ '/': () => html(THEMED_LINKS) });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const dark = favicons.find((f) => f.url.endsWith('/dark.png'));
+
+      expect(dark?.media).toBe('(prefers-color-scheme: dark)');
+    });
+
+    test('should not prefer dark variants without a theme', async () => {
+      const site = startSite({ '/': () => html(THEMED_LINKS) });
+
+      const { favicons } = await findFavicons(site.origin, config);
+
+      expect(paths(favicons).indexOf('/dark.png')).toBeGreaterThan(
+        paths(favicons).indexOf('/plain.png')
+      );
+    });
+
+    test('should prefer the variant for the requested theme', async () => {
+      const site = startSite({ '/': () => html(THEMED_LINKS) });
+
+      const dark = await findFavicons(site.origin, config, { theme: 'dark' });
+      const light = await findFavicons(site.origin, config, { theme: 'light' });
+
+      expect(paths(dark.favicons)[0]).toBe('/dark.png');
+      expect(paths(light.favicons)[0]).toBe('/light.png');
+    });
+
+    test('should still use a mismatched variant when nothing else works', async () => {
+      const site = startSite({
+        '/': () =>
+          html(
+            '<link rel="icon" href="/dark.png" sizes="32x32" media="(prefers-color-scheme: dark)">'
+          ),
+        '/dark.png': () => png(32),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config, { theme: 'light' });
+      const favicon = await fetchBestFavicon(favicons, config, { theme: 'light' });
+
+      expect(favicon?.url).toBe(`${site.origin}/dark.png`);
+    });
+  });
+
+  describe('Mask Icons', () => {
+    const MASK_LINKS = `
+      <link rel="icon" href="/icon.png" sizes="32x32" type="image/png">
+      <link rel="mask-icon" href="/pinned.svg" color="#5bbad5">
+    `;
+    const maskSvg = () =>
+      new Response(
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><path d="M0 0h16v16H0z"/></svg>',
+        { headers: { 'Content-Type': 'image/svg+xml' } }
+      );
+
+    test('should record the mask icon color', async () => {
+      const site = startSite({ '/': () => html(MASK_LINKS) });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const mask = favicons.find((f) => f.rel === 'mask-icon');
+
+      expect(mask?.color).toBe('#5bbad5');
+      expect(favicons.find((f) => f.rel === 'icon')?.color).toBeUndefined();
+    });
+
+    test('should only prefer mask icons when variant=mask is requested', async () => {
+      const site = startSite({
+        '/': () => html(MASK_LINKS),
+        '/icon.png': () => png(32),
+        '/pinned.svg': maskSvg,
+      });
+
+      const regular = await findFavicons(site.origin, config, { size: 32 });
+      const masked = await findFavicons(site.origin, config, { size: 32, variant: 'mask' });
+      const favicon = await fetchBestFavicon(masked.favicons, config, { variant: 'mask' });
+
+      expect(paths(regular.favicons)[0]).toBe('/icon.png');
+      expect(paths(masked.favicons)[0]).toBe('/pinned.svg');
+      expect(favicon?.color).toBe('#5bbad5');
+    });
+  });
+
+  describe('Meta Tag Images', () => {
+    const banner = () =>
+      image(
+        sharp({ create: { width: 1200, height: 630, channels: 3, background: '#336699' } })
+          .png()
+          .toBuffer()
+      );
+
+    const META_TAGS = `
+      <meta name="twitter:image" content="/twitter.png">
+      <meta property="og:image" content="/og.png">
+      <meta property="og:logo" content="/logo.png">
+      <meta name="msapplication-TileImage" content="/tile.png">
+    `;
+
+    test('should rank meta tag images below the well-known locations', async () => {
+      const site = startSite({
+        '/': () => html(`<link rel="icon" href="/icon.png">${META_TAGS}`),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+
+      expect(paths(favicons)).toEqual([
+        '/icon.png',
+        '/apple-touch-icon.png',
+        '/favicon.ico',
+        '/tile.png',
+        '/logo.png',
+        '/og.png',
+        '/twitter.png',
+      ]);
+      expect(favicons.slice(3).map((f) => f.source)).toEqual([
+        'ms-tile',
+        'og-logo',
+        'og-image',
+        'twitter-image',
+      ]);
+    });
+
+    test('should use a square og:image when there are no icons', async () => {
+      const site = startSite({
+        '/': () => html('<meta property="og:image" content="/og.png">'),
+        '/og.png': () => png(200),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const favicon = await fetchBestFavicon(favicons, config);
+
+      expect(favicon?.url).toBe(`${site.origin}/og.png`);
+      expect(favicon?.source).toBe('og-image');
+    });
+
+    test('should skip banner images', async () => {
+      const site = startSite({
+        '/': () =>
+          html(
+            '<meta property="og:image" content="/og.png">' +
+              '<meta name="twitter:image" content="/twitter.png">'
+          ),
+        '/og.png': banner,
+        '/twitter.png': () => png(120),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const favicon = await fetchBestFavicon(favicons, config);
+
+      expect(favicon?.source).toBe('twitter-image');
+    });
+
+    test('should not fetch og:image declared with banner dimensions', async () => {
+      const site = startSite({
+        '/': () =>
+          html(
+            '<meta property="og:image" content="/og.png">' +
+              '<meta property="og:image:width" content="1200">' +
+              '<meta property="og:image:height" content="630">'
+          ),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+
+      expect(favicons.some((f) => f.source === 'og-image')).toBe(false);
+    });
+  });
+
+  describe('Character Encodings', () => {
+    test('should resolve non-ASCII hrefs on Shift_JIS pages', async () => {
+      // "アイコン" in Shift_JIS
+      const page = Buffer.concat([
+        Buffer.from('<html><head><meta charset="shift_jis"><link rel="icon" href="/'),
+        Buffer.from([0x83, 0x41, 0x83, 0x43, 0x83, 0x52, 0x83, 0x93]),
+        Buffer.from('.png"></head><body></body></html>'),
+      ]);
+      const site = startSite({
+        '/': () => new Response(page, { headers: { 'Content-Type': 'text/html' } }),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+
+      expect(paths(favicons)[0]).toBe(`/${encodeURIComponent('アイコン')}.png`);
+    });
+  });
+
+  describe('Size Limits', () => {
+    const endless = (contentType: string, prefix = '', chunk = new Uint8Array(64 * 1024)) => {
+      let started = false;
+      return new Response(
+        new ReadableStream({
+          pull(controller) {
+            controller.enqueue(started ? chunk : new TextEncoder().encode(prefix));
+            started = true;
+          },
+        }),
+        { headers: { 'Content-Type': contentType } }
+      );
+    };
+
+    test('should skip icons larger than MAX_IMAGE_SIZE', async () => {
+      const site = startSite({
+        '/': (origin) =>
+          html(`
+            <link rel="icon" href="${origin}/huge.png" sizes="512x512" type="image/png">
+            <link rel="icon" href="${origin}/small.png" sizes="32x32" type="image/png">
+          `),
+        '/huge.png': () => endless('image/png'),
+        '/small.png': () => png(32),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const best = await fetchBestFavicon(favicons, { ...config, MAX_IMAGE_SIZE: 256 * 1024 });
+
+      expect(new URL(best!.url).pathname).toBe('/small.png');
+    });
+
+    test('should use the part of heads larger than MAX_HTML_SIZE read so far', async () => {
+      const meta = new TextEncoder().encode('<meta name="padding" content="x">'.repeat(1000));
+      const site = startSite({
+        '/': () => endless('text/html', '<html><head><link rel="icon" href="/icon.png">', meta),
+      });
+
+      const { favicons } = await findFavicons(site.origin, {
+        ...config,
+        MAX_HTML_SIZE: 256 * 1024,
+      });
+
+      expect(favicons[0]!.source).toBe('link-tag');
+      expect(paths(favicons)[0]).toBe('/icon.png');
+    });
+
+    test('should only read the head of large pages', async () => {
+      const body = new TextEncoder().encode('<p>lorem ipsum</p>'.repeat(1000));
+      const site = startSite({
+        '/': () =>
+          endless(
+            'text/html',
+            '<html><head><link rel="icon" href="/icon.png" sizes="32x32"></head><body>',
+            body
+          ),
+      });
+
+      const { favicons } = await findFavicons(site.origin, { ...config, MAX_HTML_SIZE: 64 * 1024 });
+
+      expect(favicons[0]!.source).toBe('link-tag');
+      expect(paths(favicons)[0]).toBe('/icon.png');
+    });
+  });
+});
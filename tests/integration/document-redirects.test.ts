@@ -0,0 +1,114 @@
+/**
+ * Meta refresh and canonical link integration tests
+ * Runs discovery against a local fixture site
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { findFavicons } from '../../src/lib/favicon-finder';
+import { fixtureConfig, html, useFixtureSites } from './setup';
+
+const config = fixtureConfig;
+
+const ICON = '<link rel="icon" href="/icon.png" sizes="32x32" type="image/png">';
+
+const linkTagUrls = (favicons: { source: string; url: string }[]) =>
+  favicons.filter((f) => f.source === 'link-tag').map((f) => f.url);
+
+describe('Document Redirects', () => {
+  const startSite = useFixtureSites();
+
+  test('should follow a meta refresh and report the hop', async () => {
+    const site = startSite({
+      '/': () => html('<meta http-equiv="refresh" content="0; url=/landing">'),
+      '/landing': () => html(ICON),
+    });
+
+    const { favicons, redirectChain } = await findFavicons(site.origin, config);
+
+    expect(linkTagUrls(favicons)).toEqual([`${site.origin}/icon.png`]);
+    expect(redirectChain).toEqual([`${site.origin}/landing`]);
+  });
+
+  test('should report HTTP redirects after the meta refresh', async () => {
+    const site = startSite({
+      '/': () => html(`<meta http-equiv="Refresh" content="0;URL='/old'">`),
+      '/old': (origin) => Response.redirect(`${origin}/new`, 301),
+      '/new': () => html(ICON),
+    });
+
+    const { favicons, redirectChain } = await findFavicons(site.origin, config);
+
+    expect(linkTagUrls(favicons)).toEqual([`${site.origin}/icon.png`]);
+    expect(redirectChain).toEqual([`${site.origin}/old`, `${site.origin}/new`]);
+  });
+
+  test('should follow a canonical link', async () => {
+    const site = startSite({
+      '/': () => html('<link rel="canonical" href="/en/">'),
+      '/en/': () => html(ICON),
+    });
+
+    const { favicons, redirectChain } = await findFavicons(site.origin, config);
+
+    expect(linkTagUrls(favicons)).toEqual([`${site.origin}/icon.png`]);
+    expect(redirectChain).toEqual([`${site.origin}/en/`]);
+  });
+
+  test('should not follow when the page has icon links', async () => {
+    let followed = false;
+    const site = startSite({
+      '/': () => html(`${ICON}<meta http-equiv="refresh" content="0; url=/landing">`),
+      '/landing': () => {
+        followed = true;
+        return html('');
+      },
+    });
+
+    const { redirectChain } = await findFavicons(site.origin, config);
+
+    expect(redirectChain).toEqual([]);
+    expect(followed).toBe(false);
+  });
+
+  test('should stay within MAX_REDIRECTS', async () => {
+    const site = startSite({
+      '/': (origin) => Response.redirect(`${origin}/stub`, 302),
+      '/stub': () => html('<meta http-equiv="refresh" content="0; url=/landing">'),
+      '/landing': () => html(ICON),
+    });
+
+    const { favicons, redirectChain } = await findFavicons(site.origin, {
+      ...config,
+      MAX_REDIRECTS: 1,
+    });
+
+    expect(linkTagUrls(favicons)).toEqual([]);
+    expect(redirectChain).toEqual([`${site.origin}/stub`]);
+  });
+
+  test('should stop at refresh loops', async () => {
+    const site = startSite({
+      '/': () => html('<meta http-equiv="refresh" content="0; url=/a">'),
+      '/a': () => html('<meta http-equiv="refresh" content="0; url=/">'),
+    });
+
+    const { redirectChain } = await findFavicons(site.origin, config);
+
+    expect(redirectChain).toEqual([`${site.origin}/a`]);
+  });
+
+  test('should apply the SSRF checks to the target', async () => {
+    const site = startSite({
+      '/': () => html('<meta http-equiv="refresh" content="0; url=http://10.0.0.1/">'),
+    });
+
+    const { favicons, redirectChain } = await findFavicons(site.origin, {
+      ...config,
+      BLOCKED_CIDRS: ['10.0.0.0/8'],
+    });
+
+    expect(redirectChain).toEqual([]);
+    // Discovery continues with the stub page
+    expect(favicons.some((f) => f.url === `${site!.origin}/favicon.ico`)).toBe(true);
+  });
+});
@@ -99,6 +99,22 @@ describe('Error Handling', () => {
       expect(data.source).toBe('default');
       expect(data.sourceUrl).toBe('default.svg');
     });
+
+    test('should report the normalized target for internationalized domains', async () => {
+      const response = await fetchWithTimeout(
+        `${baseUrl}/${encodeURIComponent('Bücher-Does-Not-Exist-12345.invalid.')}?response=json`,
+        {},
+        15000
+      );
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.target).toEqual({
+        url: 'https://xn--bcher-does-not-exist-12345-yzc.invalid/',
+        host: 'xn--bcher-does-not-exist-12345-yzc.invalid',
+        hostUnicode: 'bücher-does-not-exist-12345.invalid',
+      });
+    });
   });
 
   describe('CORS', () => {
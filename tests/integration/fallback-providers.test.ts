@@ -0,0 +1,76 @@
+/**
+ * Fallback provider integration tests
+ * The fixture site has no icons of its own and doubles as a local provider
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { findBestFavicon } from '../../src/lib/favicon-finder';
+import { fixtureConfig, html, png, useFixtureSites } from './setup';
+
+const config = {
+  ...fixtureConfig,
+  USE_FALLBACK_API: true,
+  HOST_FALLBACKS: [],
+};
+
+describe('Fallback Providers', () => {
+  const startSite = useFixtureSites();
+
+  test('should use the first provider that returns an icon', async () => {
+    const site = startSite({
+      '/': () => html(''),
+      '/second/127.0.0.1.png': () => png(64),
+      '/third/127.0.0.1.png': () => png(64),
+    });
+
+    const lookup = await findBestFavicon(site.origin, {
+      ...config,
+      FALLBACK_PROVIDERS: [
+        { template: `${site.origin}/first/{domain}.png` },
+        { template: `${site.origin}/second/{domain}.png` },
+        { template: `${site.origin}/third/{domain}.png` },
+      ],
+    });
+
+    expect(lookup.favicon!.source).toBe('fallback-api');
+    expect(lookup.favicon!.url).toBe(`${site.origin}/second/127.0.0.1.png`);
+  });
+
+  test('should give up on a provider after its own timeout', async () => {
+    const site = startSite({
+      '/': () => html(''),
+      '/slow.png': async () => {
+        await Bun.sleep(1500);
+        return png(64);
+      },
+      '/fast.png': () => png(64),
+    });
+
+    const start = Date.now();
+    const lookup = await findBestFavicon(site.origin, {
+      ...config,
+      FALLBACK_PROVIDERS: [
+        { template: `${site.origin}/slow.png`, timeout: 100 },
+        { template: `${site.origin}/fast.png` },
+      ],
+    });
+
+    expect(lookup.favicon!.url).toBe(`${site.origin}/fast.png`);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  test('should not use providers when USE_FALLBACK_API is disabled', async () => {
+    const site = startSite({
+      '/': () => html(''),
+      '/provider.png': () => png(64),
+    });
+
+    const lookup = await findBestFavicon(site.origin, {
+      ...config,
+      USE_FALLBACK_API: false,
+      FALLBACK_PROVIDERS: [{ template: `${site.origin}/provider.png` }],
+    });
+
+    expect(lookup.favicon).toBeNull();
+  });
+});
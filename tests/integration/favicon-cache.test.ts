@@ -0,0 +1,238 @@
+/**
+ * In-process cache integration tests
+ * Counts fixture requests to check which pipeline steps a cache hit skips
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createApp } from '../../src/index';
+import { createFaviconCache } from '../../src/lib/favicon-cache';
+import { fixtureConfig, html, png, useFixtureSites } from './setup';
+
+const config = {
+  ...fixtureConfig,
+  HOST_FALLBACKS: [],
+};
+
+describe('Favicon Cache', () => {
+  const startFixture = useFixtureSites();
+  let pageRequests = 0;
+  let iconRequests = 0;
+
+  const startSite = () => {
+    pageRequests = 0;
+    iconRequests = 0;
+    const site = startFixture({
+      '/': () => {
+        pageRequests++;
+        return html('<link rel="icon" href="/icon.png">');
+      },
+      '/icon.png': () => {
+        iconRequests++;
+        return png(64, '#c00');
+      },
+    });
+    return site.origin;
+  };
+
+  const request = (app: ReturnType<typeof createApp>, path: string) =>
+    app.fetch(new Request(`http://localhost/${path}`));
+
+  test('should serve a repeated request from the cache', async () => {
+    const origin = startSite();
+    const app = createApp(config);
+
+    const first = await request(app, `${origin}?size=32`);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+
+    const second = await request(app, `${origin}?size=32`);
+    expect(second.status).toBe(200);
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(Buffer.from(await second.arrayBuffer())).toEqual(Buffer.from(await first.arrayBuffer()));
+
+    expect(pageRequests).toBe(1);
+    expect(iconRequests).toBe(1);
+  });
+
+  test('should process another format from the cached source', async () => {
+    const origin = startSite();
+    const app = createApp(config);
+
+    await request(app, `${origin}?size=32`);
+    const webp = await request(app, `${origin}?size=32&format=webp`);
+
+    expect(webp.headers.get('X-Cache')).toBe('MISS');
+    expect(webp.headers.get('Content-Type')).toBe('image/webp');
+    expect(pageRequests).toBe(1);
+    expect(iconRequests).toBe(1);
+  });
+
+  test('should rank another size from the cached discovery', async () => {
+    const origin = startSite();
+    const app = createApp(config);
+
+    await request(app, `${origin}?size=32`);
+    const resized = await request(app, `${origin}?size=16`);
+
+    expect(resized.headers.get('X-Cache')).toBe('MISS');
+    expect(pageRequests).toBe(1);
+    // The icon is fetched again since another one could win for this size
+    expect(iconRequests).toBe(2);
+  });
+
+  test('should include JSON details on a cache hit', async () => {
+    const origin = startSite();
+    const app = createApp(config);
+
+    await request(app, `${origin}?response=json`);
+    const response = await request(app, `${origin}?response=json`);
+    const data = await response.json();
+
+    expect(response.headers.get('X-Cache')).toBe('HIT');
+    expect(data.sourceUrl).toBe(`${origin}/icon.png`);
+    expect(data.source).toBe('link-tag');
+    expect(data.width).toBe(64);
+  });
+
+  test('should keep filesystem cache entries across app instances', async () => {
+    const origin = startSite();
+    const dir = await mkdtemp(join(tmpdir(), 'favicon-cache-'));
+    const fileConfig = { ...config, CACHE_STORE: 'filesystem' as const, CACHE_DIR: dir };
+
+    try {
+      const first = await request(createApp(fileConfig), `${origin}?size=32`);
+      expect(first.headers.get('X-Cache')).toBe('MISS');
+
+      // A new app (e.g. after a restart) only shares the directory
+      const restarted = createApp(fileConfig);
+      const hit = await request(restarted, `${origin}?size=32`);
+      expect(hit.headers.get('X-Cache')).toBe('HIT');
+
+      // Another size is ranked from the cached discovery, without fetching the page
+      const resized = await request(restarted, `${origin}?size=16`);
+      expect(resized.headers.get('X-Cache')).toBe('MISS');
+
+      expect(pageRequests).toBe(1);
+      expect(iconRequests).toBe(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should not cache when disabled', async () => {
+    const origin = startSite();
+    const app = createApp({ ...config, CACHE_ENABLED: false });
+
+    await request(app, origin);
+    const second = await request(app, origin);
+
+    expect(second.headers.get('X-Cache')).toBe('MISS');
+    expect(pageRequests).toBe(2);
+  });
+});
+
+describe('Request Coalescing', () => {
+  const startSite = useFixtureSites();
+
+  test('should share one lookup between concurrent requests for the same target', async () => {
+    let pageRequests = 0;
+    let iconRequests = 0;
+    const site = startSite({
+      '/': async () => {
+        pageRequests++;
+        // Keep the lookup in flight while the other requests arrive
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return html('<link rel="icon" href="/icon.png">');
+      },
+      '/icon.png': () => {
+        iconRequests++;
+        return png(64, '#c00');
+      },
+    });
+
+    // Without the cache, only coalescing prevents repeated lookups
+    const app = createApp({ ...config, CACHE_ENABLED: false });
+    const { origin } = site;
+    const paths = [
+      ...Array.from({ length: 8 }, () => `${origin}?size=32`),
+      `${origin}?size=32&format=webp`,
+      // Same target once normalized
+      `${origin.toUpperCase()}/?size=32`,
+    ];
+
+    const responses = await Promise.all(
+      paths.map((path) => app.fetch(new Request(`http://localhost/${path}`)))
+    );
+
+    expect(responses.map((response) => response.status)).toEqual(paths.map(() => 200));
+    expect(responses[8]?.headers.get('Content-Type')).toBe('image/webp');
+    expect(pageRequests).toBe(1);
+    expect(iconRequests).toBe(1);
+  });
+
+  test('should share one discovery between concurrent requests with different sizes', async () => {
+    let pageRequests = 0;
+    const site = startSite({
+      '/': async () => {
+        pageRequests++;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return html(
+          '<link rel="icon" sizes="16x16" href="/small.png">' +
+            '<link rel="icon" sizes="64x64" href="/large.png">'
+        );
+      },
+      '/small.png': () => png(16, '#c00'),
+      '/large.png': () => png(64, '#c00'),
+    });
+
+    const app = createApp({ ...config, CACHE_ENABLED: false });
+    const responses = await Promise.all(
+      [16, 64].map((size) =>
+        app.fetch(new Request(`http://localhost/${site.origin}?size=${size}&response=json`))
+      )
+    );
+    const [small, large] = await Promise.all(responses.map((response) => response.json()));
+
+    expect(pageRequests).toBe(1);
+    expect(small.sourceUrl).toBe(`${site.origin}/small.png`);
+    expect(large.sourceUrl).toBe(`${site.origin}/large.png`);
+  });
+});
+
+describe('Favicon Cache Store Errors', () => {
+  test('should treat a failing store as a miss', async () => {
+    const failing = {
+      get: () => Promise.reject(new Error('Connection refused')),
+      set: () => Promise.reject(new Error('Connection refused')),
+      delete: () => Promise.reject(new Error('Connection refused')),
+    };
+    const cache = createFaviconCache(config, failing);
+
+    await cache?.setVariant('key', {
+      favicon: { url: 'https://example.com/favicon.ico', format: 'ico', source: 'fallback' },
+      host: 'example.com',
+      scheme: 'https',
+      pageRedirects: [],
+      image: { data: Buffer.from('image'), format: 'png', width: 1, height: 1, bytes: 5 },
+    });
+
+    expect(cache).not.toBeNull();
+    expect(await cache?.getVariant('key')).toBeUndefined();
+  });
+
+  test('should treat a store that never responds as a miss', async () => {
+    const hanging = {
+      get: () => new Promise<never>(() => {}),
+      set: () => new Promise<never>(() => {}),
+      delete: () => new Promise<never>(() => {}),
+    };
+    const cache = createFaviconCache(config, hanging);
+
+    const start = Date.now();
+    expect(await cache?.getSource('key')).toBeUndefined();
+    expect(Date.now() - start).toBeLessThan(config.REQUEST_TIMEOUT);
+  });
+});
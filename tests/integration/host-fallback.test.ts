@@ -0,0 +1,140 @@
+/**
+ * Host fallback chain integration tests
+ * Fixture hostnames are resolved to the local fixture site
+ */
+
+import { describe, test, expect, afterEach, beforeEach, spyOn } from 'bun:test';
+import dns from 'node:dns';
+import { discoverSite, findBestFavicon } from '../../src/lib/favicon-finder';
+import { normalizeTarget } from '../../src/lib/validators';
+import { fixtureConfig, html, png, useFixtureSites } from './setup';
+import type { FixtureRoutes } from './setup';
+
+const config = {
+  ...fixtureConfig,
+  HOST_FALLBACKS: ['www', 'apex'] as ('www' | 'apex')[],
+  // Every fixture hostname resolves to the fixture site on 127.0.0.1
+  BLOCK_PRIVATE_IPS: true,
+  ALLOWED_CIDRS: ['127.0.0.1'],
+};
+
+describe('Host Fallback Chain', () => {
+  const startSite = useFixtureSites();
+  let lookupSpy: ReturnType<typeof spyOn> | null = null;
+  let port = '';
+
+  beforeEach(() => {
+    lookupSpy = spyOn(dns.promises, 'lookup').mockImplementation((async () => [
+      { address: '127.0.0.1', family: 4 },
+    ]) as unknown as typeof dns.promises.lookup);
+  });
+
+  afterEach(() => {
+    lookupSpy?.mockRestore();
+    lookupSpy = null;
+  });
+
+  const start = (routes: FixtureRoutes) => {
+    const site = startSite(routes);
+    port = new URL(site.origin).port;
+  };
+
+  test('should use the icon of the requested host when it has one', async () => {
+    start({
+      'docs.example.test/': () => html('<link rel="icon" href="/docs.png" sizes="32x32">'),
+      'docs.example.test/docs.png': () => png(32),
+      'www.example.test/': () => html('<link rel="icon" href="/www.png" sizes="32x32">'),
+      'www.example.test/www.png': () => png(32),
+    });
+
+    const lookup = await findBestFavicon(`http://docs.example.test:${port}`, config);
+
+    expect(lookup.host).toBe('docs.example.test');
+    expect(lookup.favicon!.url).toBe(`http://docs.example.test:${port}/docs.png`);
+  });
+
+  test('should fall back to the www variant first', async () => {
+    start({
+      'docs.example.test/': () => html(''),
+      'www.example.test/': () => html('<link rel="icon" href="/www.png" sizes="32x32">'),
+      'www.example.test/www.png': () => png(32),
+      'example.test/': () => html('<link rel="icon" href="/apex.png" sizes="32x32">'),
+      'example.test/apex.png': () => png(32),
+    });
+
+    const lookup = await findBestFavicon(`http://docs.example.test:${port}`, config);
+
+    expect(lookup.host).toBe('www.example.test');
+    expect(lookup.favicon!.url).toBe(`http://www.example.test:${port}/www.png`);
+  });
+
+  test('should fall back to the registrable domain', async () => {
+    start({
+      'shop.example.test/': () => html(''),
+      'example.test/': () => html('<link rel="icon" href="/apex.png" sizes="32x32">'),
+      'example.test/apex.png': () => png(32),
+    });
+
+    const lookup = await findBestFavicon(`http://shop.example.test:${port}`, config);
+
+    expect(lookup.host).toBe('example.test');
+    expect(lookup.favicon!.url).toBe(`http://example.test:${port}/apex.png`);
+    expect(lookup.discovery.favicons.some((f) => f.url.includes('apex.png'))).toBe(true);
+  });
+
+  test('should keep time for the fallback providers when fallback hosts are slow', async () => {
+    const hang = () => Bun.sleep(3000).then(() => html(''));
+    start({
+      'docs.example.test/': () => html(''),
+      'www.example.test/': hang,
+      'example.test/': hang,
+      'icons.example.test/icon.png': () => png(32),
+    });
+
+    const began = Date.now();
+    const lookup = await findBestFavicon(`http://docs.example.test:${port}`, {
+      ...config,
+      USE_FALLBACK_API: true,
+      FALLBACK_PROVIDERS: [{ template: `http://icons.example.test:${port}/icon.png` }],
+    });
+
+    expect(lookup.favicon!.source).toBe('fallback-api');
+    expect(Date.now() - began).toBeLessThan(config.REQUEST_TIMEOUT);
+  });
+
+  test('should discover fallback hosts under the URL a direct request would use', async () => {
+    start({
+      'docs.example.test/': () => html(''),
+      'www.example.test/': () => html('<link rel="icon" href="/www.png" sizes="32x32">'),
+      'www.example.test/www.png': () => png(32),
+    });
+
+    const discovered: string[] = [];
+    await findBestFavicon(`http://docs.example.test:${port}`, config, {}, (url, siteConfig) => {
+      discovered.push(url);
+      return discoverSite(url, siteConfig);
+    });
+
+    // The URL keys shared and cached discoveries, so it must match a direct request
+    expect(discovered).toEqual([
+      normalizeTarget(`http://docs.example.test:${port}`)!.url,
+      normalizeTarget(`http://www.example.test:${port}`)!.url,
+    ]);
+  });
+
+  test('should not fall back when HOST_FALLBACKS is empty', async () => {
+    start({
+      'docs.example.test/': () => html(''),
+      'example.test/': () => html('<link rel="icon" href="/apex.png" sizes="32x32">'),
+      'example.test/apex.png': () => png(32),
+    });
+
+    const lookup = await findBestFavicon(`http://docs.example.test:${port}`, {
+      ...config,
+      HOST_FALLBACKS: [],
+    });
+
+    expect(lookup.favicon).toBeNull();
+    expect(lookup.host).toBe('docs.example.test');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * HTTP fallback integration tests
+ * The fixture site only speaks plain HTTP, so HTTPS connections fail the TLS handshake
+ */
+
+import { describe, test, expect, spyOn } from 'bun:test';
+import { findBestFavicon } from '../../src/lib/favicon-finder';
+import { fixtureConfig, html, png, useFixtureSites } from './setup';
+
+const config = {
+  ...fixtureConfig,
+  HTTP_FALLBACK: true,
+};
+
+const routes = {
+  '/': () => html('<link rel="icon" href="/icon.png" sizes="32x32">'),
+  '/icon.png': () => png(32),
+};
+
+describe('HTTP Fallback', () => {
+  const startSite = useFixtureSites();
+
+  test('should retry over http:// when https:// fails for a bare domain', async () => {
+    const site = startSite(routes);
+    const host = new URL(site.origin).host;
+
+    const lookup = await findBestFavicon(host, config);
+
+    expect(lookup.scheme).toBe('http');
+    expect(lookup.favicon!.url).toBe(`http://${host}/icon.png`);
+  });
+
+  test('should not downgrade an explicit https:// URL', async () => {
+    const site = startSite(routes);
+    const host = new URL(site.origin).host;
+
+    const lookup = await findBestFavicon(`https://${host}`, config);
+
+    expect(lookup.scheme).toBe('https');
+    expect(lookup.favicon).toBeNull();
+  });
+
+  test('should respect the schemeImplied option over the URL', async () => {
+    const site = startSite(routes);
+    const host = new URL(site.origin).host;
+
+    const lookup = await findBestFavicon(`https://${host}`, config, { schemeImplied: true });
+
+    expect(lookup.scheme).toBe('http');
+  });
+
+  test('should not retry over http:// when HTTP_FALLBACK is disabled', async () => {
+    const site = startSite(routes);
+    const host = new URL(site.origin).host;
+
+    const lookup = await findBestFavicon(host, { ...config, HTTP_FALLBACK: false });
+
+    expect(lookup.scheme).toBe('https');
+    expect(lookup.favicon).toBeNull();
+  });
+
+  test('should not retry over http:// after an HTTP error', async () => {
+    const site = startSite(routes);
+    const host = new URL(site.origin).host;
+
+    // HTTPS connects fine but the server responds with an error
+    const realFetch = globalThis.fetch;
+    const spy = spyOn(globalThis, 'fetch').mockImplementation(((
+      input: string | URL,
+      init?: RequestInit
+    ) =>
+      input.toString().startsWith('https:')
+        ? Promise.resolve(new Response('Server error', { status: 500 }))
+        : realFetch(input, init)) as typeof fetch);
+
+    try {
+      const lookup = await findBestFavicon(host, config);
+
+      expect(lookup.scheme).toBe('https');
+      expect(lookup.discovery.connectionFailed).toBe(false);
+      expect(lookup.favicon).toBeNull();
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Web manifest discovery integration tests
+ * Runs discovery against a local fixture site
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { findFavicons } from '../../src/lib/favicon-finder';
+import { fixtureConfig, html, useFixtureSites } from './setup';
+
+const config = fixtureConfig;
+
+const manifest = (icons: unknown[]) =>
+  new Response(JSON.stringify({ name: 'Fixture', icons }), {
+    headers: { 'Content-Type': 'application/manifest+json' },
+  });
+
+describe('Manifest Discovery', () => {
+  const startSite = useFixtureSites();
+
+  test('should use the manifest declared via <link rel="manifest">', async () => {
+    const site = startSite({
+      '/': () => html('<link rel="manifest" href="/app/site.webmanifest">'),
+      '/app/site.webmanifest': () =>
+        manifest([{ src: 'icons/icon-192.png', sizes: '192x192', type: 'image/png' }]),
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+    const manifestIcons = favicons.filter((f) => f.source === 'manifest');
+
+    expect(manifestIcons).toHaveLength(1);
+    // Icon src is resolved relative to the manifest URL, not the site root
+    expect(manifestIcons[0]!.url).toBe(`${site.origin}/app/icons/icon-192.png`);
+    expect(manifestIcons[0]!.size).toBe(192);
+  });
+
+  test('should resolve the manifest link against the final document URL', async () => {
+    const site = startSite({
+      '/': () => Response.redirect('/en/', 302),
+      '/en/': () => html('<link rel="manifest" href="manifest.webmanifest">'),
+      '/en/manifest.webmanifest': () => manifest([{ src: '/logo.png', sizes: '512x512' }]),
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+    const manifestIcons = favicons.filter((f) => f.source === 'manifest');
+
+    expect(manifestIcons.map((f) => f.url)).toEqual([`${site.origin}/logo.png`]);
+  });
+
+  test('should skip invalid icon entries without dropping the manifest', async () => {
+    const site = startSite({
+      '/': () => html('<link rel="manifest" href="/manifest.json">'),
+      '/manifest.json': () =>
+        manifest([{ sizes: '64x64' }, { src: 42 }, { src: '/ok.png', sizes: '64x64' }]),
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+    const manifestIcons = favicons.filter((f) => f.source === 'manifest');
+
+    expect(manifestIcons.map((f) => f.url)).toEqual([`${site.origin}/ok.png`]);
+  });
+
+  test('should guess the format of untyped icons from their extension', async () => {
+    const site = startSite({
+      '/': () =>
+        html(`
+          <link rel="manifest" href="/manifest.json">
+          <link rel="icon" href="/i.png" sizes="32x32">
+        `),
+      '/manifest.json': () => manifest([{ src: '/icon-192.png', sizes: '192x192' }]),
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+    const manifestIcon = favicons.find((f) => f.source === 'manifest');
+    const linkIcon = favicons.find((f) => f.source === 'link-tag');
+
+    expect(manifestIcon!.format).toBe('png');
+    expect(manifestIcon!.score).toBeGreaterThan(linkIcon!.score);
+  });
+
+  test('should probe well-known manifests on the same port as the page', async () => {
+    const site = startSite({
+      '/': () => html(''),
+      '/site.webmanifest': () => manifest([{ src: '/icon-192.png', sizes: '192x192' }]),
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+    const manifestIcons = favicons.filter((f) => f.source === 'manifest');
+
+    expect(manifestIcons.map((f) => f.url)).toEqual([`${site.origin}/icon-192.png`]);
+  });
+
+  test('should probe well-known manifests while the page is still loading', async () => {
+    let manifestRequested: () => void = () => {};
+    const manifestRequest = new Promise<void>((resolve) => (manifestRequested = resolve));
+
+    const site = startSite({
+      // The page only responds once the manifest probe arrived (or after a second)
+      '/': async () => {
+        const probedFirst = await Promise.race([
+          manifestRequest.then(() => true),
+          new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 1000)),
+        ]);
+        return html(probedFirst ? '<link rel="icon" href="/parallel.png">' : '');
+      },
+      '/manifest.json': () => {
+        manifestRequested();
+        return manifest([{ src: '/icon-192.png', sizes: '192x192' }]);
+      },
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+
+    expect(favicons.map((f) => f.url)).toContain(`${site.origin}/parallel.png`);
+    expect(favicons.map((f) => f.url)).toContain(`${site.origin}/icon-192.png`);
+  });
+
+  test('should cancel well-known manifest probes once a manifest is declared', async () => {
+    let probeCancelled = false;
+
+    const site = startSite({
+      '/': () => html('<link rel="manifest" href="/declared.json">'),
+      '/declared.json': () => manifest([{ src: '/declared.png', sizes: '192x192' }]),
+      // Sends the headers but never finishes the body
+      '/manifest.json': () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('{"icons": ['));
+            },
+            cancel() {
+              probeCancelled = true;
+            },
+          }),
+          { headers: { 'Content-Type': 'application/manifest+json' } }
+        ),
+    });
+
+    const { favicons } = await findFavicons(site.origin, config);
+    await Bun.sleep(100);
+
+    expect(favicons.map((f) => f.url)).toContain(`${site.origin}/declared.png`);
+    // Without cancelling, the probe would only time out after 800ms
+    expect(probeCancelled).toBe(true);
+  });
+
+  describe('Icon Purpose', () => {
+    const purposeRoutes = {
+      '/': () => html('<link rel="manifest" href="/manifest.json">'),
+      '/manifest.json': () =>
+        manifest([
+          { src: '/any.png', sizes: '192x192', type: 'image/png' },
+          { src: '/maskable.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+          { src: '/mono.png', sizes: '512x512', type: 'image/png', purpose: 'monochrome' },
+        ]),
+    };
+
+    test('should prefer "any" icons over larger maskable/monochrome icons by default', async () => {
+      const site = startSite(purposeRoutes);
+
+      const { favicons } = await findFavicons(site.origin, config);
+      const manifestIcons = favicons.filter((f) => f.source === 'manifest');
+
+      expect(manifestIcons.map((f) => f.url)).toEqual([
+        `${site.origin}/any.png`,
+        `${site.origin}/maskable.png`,
+        `${site.origin}/mono.png`,
+      ]);
+      expect(manifestIcons[1]!.purpose).toEqual(['maskable']);
+    });
+
+    test('should rank maskable icons first when purpose=maskable is requested', async () => {
+      const site = startSite(purposeRoutes);
+
+      const { favicons } = await findFavicons(site.origin, config, { purpose: 'maskable' });
+
+      expect(favicons[0]!.url).toBe(`${site.origin}/maskable.png`);
+    });
+
+    test('should treat icons with "any maskable" as suitable for both', async () => {
+      const site = startSite({
+        '/': () => html('<link rel="manifest" href="/manifest.json">'),
+        '/manifest.json': () =>
+          manifest([
+            { src: '/small.png', sizes: '64x64', type: 'image/png' },
+            { src: '/both.png', sizes: '256x256', type: 'image/png', purpose: 'any maskable' },
+          ]),
+      });
+
+      const { favicons } = await findFavicons(site.origin, config);
+
+      expect(favicons[0]!.url).toBe(`${site.origin}/both.png`);
+      expect(favicons[0]!.purpose).toEqual(['any', 'maskable']);
+    });
+  });
+});
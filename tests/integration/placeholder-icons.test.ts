@@ -0,0 +1,125 @@
+/**
+ * Placeholder icon integration tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import sharp from 'sharp';
+import { findBestFavicon } from '../../src/lib/favicon-finder';
+import { computeImageHash } from '../../src/lib/image-processor';
+import { fixtureConfig, html, image, useFixtureSites } from './setup';
+
+const config = {
+  ...fixtureConfig,
+  USE_FALLBACK_API: true,
+  HOST_FALLBACKS: [],
+};
+
+// A "globe": white circle on a dark square
+const globe = (size: number) =>
+  sharp(
+    Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">` +
+        `<rect width="100%" height="100%" fill="#333"/>` +
+        `<circle cx="50%" cy="50%" r="40%" fill="#fff"/></svg>`
+    )
+  )
+    .png()
+    .toBuffer();
+
+// A site logo: vertical split, dark on the left
+const logo = (size: number) =>
+  sharp(
+    Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">` +
+        `<rect width="100%" height="100%" fill="#fff"/>` +
+        `<rect width="50%" height="100%" fill="#c00"/></svg>`
+    )
+  )
+    .png()
+    .toBuffer();
+
+// Chrome's default globe favicon (32x32), bundled in KNOWN_PLACEHOLDERS
+const defaultGlobe = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAABZ0lEQVR42mIgFYwClUn/2WXLXgZIl74KRcYg' +
+    'MZAcoP0q0MggCMKop9j9r1cIQKGCHiH0FNHudrhwPUmhoPe4BwghAMJOFXAlpbvuO5DV7I20BjrW/Wbm+/b7' +
+    'Z+5m54oLqEI8NC6OPy34igtYeWo5AfAVF2A8XXEC4PuTTQ6uxzVT0zbu3+177bhuPd1wAuBDDM8lvKyLpzOh' +
+    'o/s55c1ztXFC+8bHW9hzCzGIBQZYcMAOTlmNmyc7kbwkqf3EXbYYjI89uJdr7OgSgBIL3PnUe9qagoaCAgbs' +
+    'kak9dRKiKe4dT/wqxCMs/IZNiO1yGbgQENzZmjZTLGzwCfDnS2U4Np4+uH+ebp6K4DIBTnDL3oTwuGtdfBM0' +
+    'GlGjAlflHnZYENMLXlMi1HsJh5gUBy4WoCBApwTg5FH6D6H+a6jfiJRbsf5hlB7HvcJxzAwkgc5+O5AAKx9I' +
+    '9Ecy/aFUfyzX/zBR+DT7v74AsO5C2w9Yq9YAAAAASUVORK5CYII=',
+  'base64'
+);
+
+describe('Placeholder Icons', () => {
+  const startSite = useFixtureSites();
+
+  test('should treat a placeholder from a provider as a miss', async () => {
+    const site = startSite({
+      '/': () => html(''),
+      '/provider/127.0.0.1.png': () => image(globe(64)),
+    });
+
+    const hash = await computeImageHash(await globe(128));
+    const lookup = await findBestFavicon(site.origin, {
+      ...config,
+      FALLBACK_PROVIDERS: [{ template: `${site.origin}/provider/{domain}.png` }],
+      PLACEHOLDER_HASHES: [{ name: 'globe', hash: hash ?? '' }],
+    });
+
+    expect(lookup.favicon).toBeNull();
+  });
+
+  test('should treat the bundled provider globe as a miss without PLACEHOLDER_HASHES', async () => {
+    const site = startSite({
+      '/': () => html(''),
+      '/provider/127.0.0.1.png': () => image(sharp(defaultGlobe).resize(64, 64).png().toBuffer()),
+    });
+
+    const lookup = await findBestFavicon(site.origin, {
+      ...config,
+      FALLBACK_PROVIDERS: [{ template: `${site.origin}/provider/{domain}.png` }],
+      PLACEHOLDER_HASHES: [],
+    });
+
+    expect(lookup.favicon).toBeNull();
+  });
+
+  test('should skip a placeholder site icon in favor of the next candidate', async () => {
+    const site = startSite({
+      '/': () =>
+        new Response(
+          '<html><head>' +
+            '<link rel="icon" sizes="64x64" href="/default.png">' +
+            '<link rel="icon" sizes="32x32" href="/logo.png">' +
+            '</head></html>'
+        ),
+      '/default.png': () => image(globe(64)),
+      '/logo.png': () => image(logo(32)),
+    });
+
+    const hash = await computeImageHash(await globe(64));
+    const lookup = await findBestFavicon(site.origin, {
+      ...config,
+      USE_FALLBACK_API: false,
+      PLACEHOLDER_HASHES: [{ name: 'builder-default', hash: hash ?? '' }],
+    });
+
+    expect(lookup.favicon?.url).toBe(`${site.origin}/logo.png`);
+  });
+
+  test('should keep icons that are not registered as placeholders', async () => {
+    const site = startSite({
+      '/': () => html('<link rel="icon" href="/logo.png">'),
+      '/logo.png': () => image(logo(32)),
+    });
+
+    const hash = await computeImageHash(await globe(64));
+    const lookup = await findBestFavicon(site.origin, {
+      ...config,
+      USE_FALLBACK_API: false,
+      PLACEHOLDER_HASHES: [{ name: 'globe', hash: hash ?? '' }],
+    });
+
+    expect(lookup.favicon?.url).toBe(`${site.origin}/logo.png`);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Redis cache store integration tests
+ * Run against a local server: REDIS_URL=redis://localhost:6379 bun test
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { createRedisCacheStore } from '../../src/lib/redis-cache-store';
+import type { CacheStore } from '../../src/lib/cache-store';
+
+const redisUrl = process.env.REDIS_URL;
+
+describe.skipIf(!redisUrl)('Redis Cache Store', () => {
+  const key = `favicon-api-test:${crypto.randomUUID()}`;
+  let store: CacheStore;
+
+  beforeAll(() => {
+    store = createRedisCacheStore(redisUrl ?? '');
+  });
+
+  afterAll(async () => {
+    await store.delete(key);
+  });
+
+  test('should store and return binary values', async () => {
+    const value = Buffer.from([0, 255, 1, 254, 137, 80, 78, 71]);
+    await store.set(key, value, 60_000);
+
+    expect(await store.get(key)).toEqual(value);
+  });
+
+  test('should delete entries', async () => {
+    await store.set(key, Buffer.from('value'), 60_000);
+    await store.delete(key);
+
+    expect(await store.get(key)).toBeNull();
+  });
+
+  test('should let the server expire entries', async () => {
+    await store.set(key, Buffer.from('value'), 50);
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(await store.get(key)).toBeNull();
+  });
+});
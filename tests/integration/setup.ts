@@ -3,6 +3,8 @@
  * Provides helpers for starting/stopping test server
  */
 
+import { afterEach } from 'bun:test';
+import sharp from 'sharp';
 import { createApp } from '../../src/index';
 import { loadConfig } from '../../src/lib/config';
 import { initializeFallbackImage } from '../../src/lib/fallback-image';
@@ -69,3 +71,88 @@ export async function fetchWithTimeout(
     clearTimeout(timeoutId);
   }
 }
+
+export interface FixtureSite {
+  origin: string;
+  stop: () => void;
+}
+
+export type FixtureRoutes = Record<string, (origin: string) => Response | Promise<Response>>;
+
+/**
+ * Start a local website that serves fixed fixture responses by path
+ * Routes can also be keyed by host and path (e.g. "www.example.test/") for
+ * requests pinned to the fixture with a different Host header
+ * Used to exercise discovery without depending on real websites
+ */
+export function startFixtureSite(routes: FixtureRoutes): FixtureSite {
+  const server = Bun.serve({
+    port: 0,
+    hostname: '127.0.0.1',
+    fetch(req): Response | Promise<Response> {
+      const { hostname, pathname } = new URL(req.url);
+      const route = routes[`${hostname}${pathname}`] ?? routes[pathname];
+      return route ? route(server.url.origin) : new Response('Not found', { status: 404 });
+    },
+  });
+
+  return { origin: server.url.origin, stop: () => server.stop(true) };
+}
+
+/**
+ * Start fixture sites from the tests of the current describe block
+ * Every site started through the returned function is stopped after each test
+ */
+export function useFixtureSites(): (routes: FixtureRoutes) => FixtureSite {
+  const sites: FixtureSite[] = [];
+
+  afterEach(() => {
+    for (const site of sites.splice(0)) {
+      site.stop();
+    }
+  });
+
+  return (routes) => {
+    const site = startFixtureSite(routes);
+    sites.push(site);
+    return site;
+  };
+}
+
+/**
+ * Config for running discovery against fixture sites
+ */
+export const fixtureConfig = {
+  ...loadConfig(),
+  REQUEST_TIMEOUT: 2000,
+  USE_FALLBACK_API: false,
+  // The fixture site runs on 127.0.0.1
+  BLOCK_PRIVATE_IPS: false,
+};
+
+/**
+ * HTML page with the given head content
+ */
+export const html = (head: string) =>
+  new Response(`<html><head>${head}</head><body></body></html>`, {
+    headers: { 'Content-Type': 'text/html' },
+  });
+
+/**
+ * Solid square PNG, opaque black by default
+ */
+export const pngBuffer = (size: number, background: sharp.Color = '#000') =>
+  sharp({ create: { width: size, height: size, channels: 4, background } })
+    .png()
+    .toBuffer();
+
+/**
+ * PNG image response
+ */
+export const image = async (buffer: Buffer | Promise<Buffer>) =>
+  new Response(await buffer, { headers: { 'Content-Type': 'image/png' } });
+
+/**
+ * Solid square PNG image response, opaque black by default
+ */
+export const png = (size: number, background?: sharp.Color) => image(pngBuffer(size, background));
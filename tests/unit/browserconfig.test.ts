@@ -0,0 +1,48 @@
+/**
+ * Unit tests for browserconfig.xml parsing
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { parseBrowserconfig } from '../../src/lib/browserconfig';
+
+const BROWSERCONFIG = `<?xml version="1.0" encoding="utf-8"?>
+<browserconfig>
+  <msapplication>
+    <tile>
+      <square70x70logo src="/mstile-70x70.png"/>
+      <square150x150logo src="/mstile-150x150.png"/>
+      <wide310x150logo src="/mstile-310x150.png"/>
+      <square310x310logo src="tiles/mstile-310x310.png"/>
+      <TileImage src="/mstile-144x144.png"/>
+      <TileColor>#da532c</TileColor>
+    </tile>
+  </msapplication>
+</browserconfig>`;
+
+describe('parseBrowserconfig', () => {
+  test('should extract square tiles with their sizes', () => {
+    expect(parseBrowserconfig(BROWSERCONFIG).tiles).toEqual([
+      { src: '/mstile-70x70.png', size: 70 },
+      { src: '/mstile-150x150.png', size: 150 },
+      { src: 'tiles/mstile-310x310.png', size: 310 },
+      { src: '/mstile-144x144.png', size: 144 },
+    ]);
+  });
+
+  test('should extract the tile color', () => {
+    expect(parseBrowserconfig(BROWSERCONFIG).tileColor).toBe('#da532c');
+  });
+
+  test('should ignore invalid tile colors', () => {
+    const xml =
+      '<browserconfig><msapplication><tile><TileColor>x"y</TileColor></tile></msapplication></browserconfig>';
+    expect(parseBrowserconfig(xml).tileColor).toBeUndefined();
+  });
+
+  test('should return nothing for documents that are not a browserconfig', () => {
+    expect(parseBrowserconfig('<html><body>Not found</body></html>')).toEqual({
+      tiles: [],
+      tileColor: undefined,
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for the memory and filesystem cache stores
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createMemoryCacheStore } from '../../src/lib/cache-store';
+import type { CacheStore } from '../../src/lib/cache-store';
+import { createFileCacheStore } from '../../src/lib/file-cache-store';
+
+const dir = await mkdtemp(join(tmpdir(), 'favicon-cache-'));
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const countFiles = async (path: string) => {
+  const files = await readdir(path, { recursive: true, withFileTypes: true });
+  return files.filter((file) => file.isFile()).length;
+};
+
+const stores: [string, () => CacheStore][] = [
+  ['memory', () => createMemoryCacheStore(100, 1_000_000)],
+  ['filesystem', () => createFileCacheStore(dir, 1_000_000)],
+];
+
+for (const [name, createStore] of stores) {
+  describe(`${name} cache store`, () => {
+    test('should return stored bytes', async () => {
+      const store = createStore();
+      await store.set('key', Buffer.from([1, 2, 3]), 60_000);
+
+      expect(await store.get('key')).toEqual(Buffer.from([1, 2, 3]));
+      expect(await store.get('missing')).toBeNull();
+    });
+
+    test('should overwrite and delete entries', async () => {
+      const store = createStore();
+      await store.set('replaced', Buffer.from('old'), 60_000);
+      await store.set('replaced', Buffer.from('new'), 60_000);
+      expect((await store.get('replaced'))?.toString()).toBe('new');
+
+      await store.delete('replaced');
+      expect(await store.get('replaced')).toBeNull();
+    });
+
+    test('should expire entries after their TTL', async () => {
+      const store = createStore();
+      await store.set('short', Buffer.from('value'), 20);
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+
+      expect(await store.get('short')).toBeNull();
+    });
+  });
+}
+
+describe('filesystem cache store', () => {
+  test('should share entries between instances on the same directory', async () => {
+    await createFileCacheStore(dir, 1_000_000).set('shared', Buffer.from('value'), 60_000);
+
+    expect((await createFileCacheStore(dir, 1_000_000).get('shared'))?.toString()).toBe('value');
+  });
+
+  test('should sweep expired entries', async () => {
+    const sweepDir = await mkdtemp(join(tmpdir(), 'favicon-cache-sweep-'));
+    const store = createFileCacheStore(sweepDir, 1_000_000);
+    await store.set('expired', Buffer.from('value'), 20);
+    await store.set('fresh', Buffer.from('value'), 60_000);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    await store.sweep();
+
+    expect(await countFiles(sweepDir)).toBe(1);
+    expect(await store.get('fresh')).not.toBeNull();
+
+    await rm(sweepDir, { recursive: true, force: true });
+  });
+
+  test('should sweep the entries closest to expiry over the byte limit', async () => {
+    const sweepDir = await mkdtemp(join(tmpdir(), 'favicon-cache-sweep-'));
+    // Each entry takes 8 bytes of expiry and 8 bytes of data
+    const store = createFileCacheStore(sweepDir, 40);
+    await store.set('soonest', Buffer.alloc(8), 60_000);
+    await store.set('later', Buffer.alloc(8), 120_000);
+    await store.set('latest', Buffer.alloc(8), 180_000);
+
+    await store.sweep();
+
+    expect(await countFiles(sweepDir)).toBe(2);
+    expect(await store.get('soonest')).toBeNull();
+    expect(await store.get('later')).not.toBeNull();
+    expect(await store.get('latest')).not.toBeNull();
+
+    await rm(sweepDir, { recursive: true, force: true });
+  });
+});
+
+describe('memory cache store', () => {
+  test('should evict the least recently used entries over the byte limit', async () => {
+    const store = createMemoryCacheStore(100, 15);
+    await store.set('a', Buffer.alloc(8), 60_000);
+    await store.set('b', Buffer.alloc(8), 60_000);
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).not.toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for light and dark icon variants
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { getMediaColorScheme, resolveSvgColorScheme } from '../../src/lib/color-scheme';
+
+describe('getMediaColorScheme', () => {
+  test('should detect the targeted color scheme', () => {
+    expect(getMediaColorScheme('(prefers-color-scheme: dark)')).toBe('dark');
+    expect(getMediaColorScheme('(prefers-color-scheme:light)')).toBe('light');
+    expect(getMediaColorScheme('screen and (PREFERS-COLOR-SCHEME: Dark)')).toBe('dark');
+  });
+
+  test('should ignore queries without a color scheme', () => {
+    expect(getMediaColorScheme(undefined)).toBeUndefined();
+    expect(getMediaColorScheme('(min-width: 600px)')).toBeUndefined();
+  });
+});
+
+describe('resolveSvgColorScheme', () => {
+  const svg =
+    '<svg><style>path { fill: #000 } ' +
+    '@media (prefers-color-scheme: dark) { path { fill: #fff } } ' +
+    '@media (prefers-color-scheme: light) { circle { fill: #111 } }' +
+    '</style><path d="M0 0h1v1z"/></svg>';
+
+  test('should unwrap the blocks for the theme and drop the others', () => {
+    const dark = resolveSvgColorScheme(svg, 'dark');
+    expect(dark).not.toContain('@media');
+    expect(dark).toContain('path { fill: #000 }  path { fill: #fff }');
+    expect(dark).not.toContain('circle');
+
+    const light = resolveSvgColorScheme(svg, 'light');
+    expect(light).not.toContain('@media');
+    expect(light).not.toContain('#fff');
+    expect(light).toContain('circle { fill: #111 }');
+  });
+
+  test('should keep other media queries', () => {
+    const responsive = '<style>@media (min-width: 32px) { path { stroke: red } }</style>';
+    expect(resolveSvgColorScheme(responsive, 'dark')).toBe(responsive);
+  });
+
+  test('should leave SVGs without color scheme rules unchanged', () => {
+    const plain = '<svg><path d="M0 0h1v1z"/></svg>';
+    expect(resolveSvgColorScheme(plain, 'dark')).toBe(plain);
+  });
+
+  test('should leave an unterminated block alone', () => {
+    const broken = '<style>@media (prefers-color-scheme: dark) { path { fill: #fff }</style>';
+    expect(resolveSvgColorScheme(broken, 'light')).toBe(broken);
+  });
+});
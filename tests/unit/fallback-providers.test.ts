@@ -0,0 +1,69 @@
+/**
+ * Unit tests for fallback provider configuration
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  getFallbackProviderCandidates,
+  parseFallbackProvider,
+} from '../../src/lib/fallback-providers';
+
+describe('Fallback Providers', () => {
+  describe('parseFallbackProvider', () => {
+    test('should parse a template without a timeout', () => {
+      expect(parseFallbackProvider('https://icons.duckduckgo.com/ip3/{domain}.ico')).toEqual({
+        template: 'https://icons.duckduckgo.com/ip3/{domain}.ico',
+      });
+    });
+
+    test('should parse a template with a timeout', () => {
+      expect(parseFallbackProvider(' https://icons.example.com/{domain}|1500 ')).toEqual({
+        template: 'https://icons.example.com/{domain}',
+        timeout: 1500,
+      });
+    });
+
+    test('should reject invalid templates and timeouts', () => {
+      expect(parseFallbackProvider('not a url/{domain}')).toBeNull();
+      expect(parseFallbackProvider('ftp://icons.example.com/{domain}')).toBeNull();
+      expect(parseFallbackProvider('https://icons.example.com/{domain}|soon')).toBeNull();
+      expect(parseFallbackProvider('https://icons.example.com/{domain}|0')).toBeNull();
+      expect(parseFallbackProvider('https://icons.example.com/{domain}|100|200')).toBeNull();
+    });
+  });
+
+  describe('getFallbackProviderCandidates', () => {
+    const providers = [
+      { template: 'https://icons.duckduckgo.com/ip3/{domain}.ico', timeout: 2000 },
+      { template: 'https://www.google.com/s2/favicons?domain={origin}&sz={size}' },
+    ];
+
+    test('should fill in the placeholders', () => {
+      const candidates = getFallbackProviderCandidates(
+        new URL('http://example.com:8080/blog'),
+        providers,
+        128
+      );
+
+      expect(candidates.map((c) => c.url)).toEqual([
+        'https://icons.duckduckgo.com/ip3/example.com.ico',
+        'https://www.google.com/s2/favicons?domain=http%3A%2F%2Fexample.com%3A8080&sz=128',
+      ]);
+    });
+
+    test('should request 64px without a size', () => {
+      const candidates = getFallbackProviderCandidates(new URL('https://example.com'), providers);
+
+      expect(candidates[1]!.url).toContain('&sz=64');
+    });
+
+    test('should rank providers in the configured order with their timeouts', () => {
+      const candidates = getFallbackProviderCandidates(new URL('https://example.com'), providers);
+
+      expect(candidates.map((c) => c.source)).toEqual(['fallback-api', 'fallback-api']);
+      expect(candidates[0]!.score).toBeGreaterThan(candidates[1]!.score);
+      expect(candidates.map((c) => c.timeout)).toEqual([2000, undefined]);
+      expect(candidates[0]!.reason).toBe('fallback provider icons.duckduckgo.com');
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for the host fallback chain
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { getFallbackHosts } from '../../src/lib/host-fallback';
+
+describe('getFallbackHosts', () => {
+  const steps = ['www', 'apex'] as const;
+
+  test('should try www and then the apex domain for subdomains', () => {
+    expect(getFallbackHosts('docs.example.com', [...steps])).toEqual([
+      'www.example.com',
+      'example.com',
+    ]);
+  });
+
+  test('should try the www variant of an apex domain', () => {
+    expect(getFallbackHosts('example.com', [...steps])).toEqual(['www.example.com']);
+  });
+
+  test('should try the apex domain for www hosts', () => {
+    expect(getFallbackHosts('www.example.com', [...steps])).toEqual(['example.com']);
+  });
+
+  test('should use the Public Suffix List for multi-label suffixes', () => {
+    expect(getFallbackHosts('shop.foo.co.uk', [...steps])).toEqual(['www.foo.co.uk', 'foo.co.uk']);
+  });
+
+  test('should not fall back across private suffixes', () => {
+    expect(getFallbackHosts('blog.user.github.io', [...steps])).toEqual([
+      'www.user.github.io',
+      'user.github.io',
+    ]);
+  });
+
+  test('should follow the configured order and steps', () => {
+    expect(getFallbackHosts('docs.example.com', ['apex', 'www'])).toEqual([
+      'example.com',
+      'www.example.com',
+    ]);
+    expect(getFallbackHosts('docs.example.com', ['apex'])).toEqual(['example.com']);
+    expect(getFallbackHosts('docs.example.com', [])).toEqual([]);
+  });
+
+  test('should have no fallbacks for IP addresses and bare hostnames', () => {
+    expect(getFallbackHosts('127.0.0.1', [...steps])).toEqual([]);
+    expect(getFallbackHosts('localhost', [...steps])).toEqual([]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Unit tests for head-only HTML reading
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { detectHtmlEncoding, findHeadEnd, readHtmlHead, scanHead } from '../../src/lib/html-head';
+import type { HeadScan } from '../../src/lib/html-head';
+
+const headOf = (html: string) => {
+  const end = findHeadEnd(html);
+  return end === -1 ? null : html.slice(0, end);
+};
+
+describe('findHeadEnd', () => {
+  test('should end after </head>', () => {
+    const html = '<html><head><link rel="icon" href="/a.png"></head><body><p>Hi</p></body></html>';
+
+    expect(headOf(html)).toBe('<html><head><link rel="icon" href="/a.png"></head>');
+  });
+
+  test('should end at <body> when </head> is omitted', () => {
+    expect(headOf('<html><head><base href="/x/"><body>')).toBe('<html><head><base href="/x/">');
+  });
+
+  test('should end at the first body element', () => {
+    expect(headOf('<!DOCTYPE html><meta charset="utf-8"><div>')).toBe(
+      '<!DOCTYPE html><meta charset="utf-8">'
+    );
+  });
+
+  test('should end at the first text content', () => {
+    expect(headOf('<title>Site</title>\n  Hello')).toBe('<title>Site</title>\n  ');
+  });
+
+  test('should not end inside scripts, styles, titles or comments', () => {
+    const head = `<head>
+      <title>a <body> b</title>
+      <script>document.write("</head><body>")</script>
+      <style>body > div { color: red }</style>
+      <!-- <body> -->
+      <link rel="icon" href="/icon.png" title="<body>">
+    </head>`;
+
+    expect(headOf(`${head}<body>`)).toBe(head);
+  });
+
+  test('should ignore the case of tag names', () => {
+    expect(headOf('<HTML><HEAD><LINK REL="icon" HREF="/a.ico"></HEAD>')).toBe(
+      '<HTML><HEAD><LINK REL="icon" HREF="/a.ico"></HEAD>'
+    );
+  });
+
+  test('should treat quotes inside unquoted attribute values as text', () => {
+    const head = `<head><meta name=description content=Bob's><link rel=icon href=/a.png>`;
+
+    expect(headOf(`${head}<body>`)).toBe(head);
+  });
+
+  test('should still skip ">" inside quoted values after "="', () => {
+    const head = `<head><link rel="icon" href = '/a.png?x=>' title=it's>`;
+
+    expect(headOf(`${head}<body>`)).toBe(head);
+  });
+
+  test('should return -1 while the head may continue', () => {
+    expect(findHeadEnd('<html><head><link rel="icon"')).toBe(-1);
+    expect(findHeadEnd('<html><head><script>var a = 1;')).toBe(-1);
+    expect(findHeadEnd('<html><head><!-- comment')).toBe(-1);
+    expect(findHeadEnd('<html><head>')).toBe(-1);
+  });
+});
+
+describe('scanHead', () => {
+  const scanInChunks = (html: string, size: number) => {
+    const scan: HeadScan = { index: 0 };
+    for (let end = size; end < html.length + size; end += size) {
+      const headEnd = scanHead(html.slice(0, end), scan);
+      if (headEnd !== -1) return headEnd;
+    }
+    return -1;
+  };
+
+  test('should find the same end when resumed chunk by chunk', () => {
+    const html = `<html><HEAD><!-- <body> --><title>a <b> c</title>
+      <SCRIPT>document.write("</head>")</SCRIPT><style>p > a {}</style>
+      <link rel="icon" href="/icon.png"></head><body><p>Hi</p>`;
+
+    for (const size of [1, 2, 3, 7, 16]) {
+      expect(scanInChunks(html, size)).toBe(findHeadEnd(html));
+    }
+  });
+
+  test('should scan large heads in linear time', () => {
+    const script = `<script>var x = "${'a'.repeat(3000)}";</script>\n`;
+    const html = `<html><head>${script.repeat(600)}</head><body>`;
+
+    const start = performance.now();
+    const headEnd = scanInChunks(html, 16 * 1024);
+
+    expect(headEnd).toBe(html.length - '<body>'.length);
+    // Rescanning the whole document on every chunk took seconds
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+});
+
+describe('readHtmlHead', () => {
+  /**
+   * A response that streams the given chunks, then an endless body
+   */
+  function streamed(chunks: string[]) {
+    const state = { pulled: 0, cancelled: false };
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        state.pulled++;
+        const chunk = chunks.shift() ?? '<p>lorem ipsum</p>'.repeat(100);
+        controller.enqueue(encoder.encode(chunk));
+      },
+      cancel() {
+        state.cancelled = true;
+      },
+    });
+    return { response: new Response(stream), state };
+  }
+
+  test('should stop reading at the end of the head', async () => {
+    const { response, state } = streamed([
+      '<html><head><link rel="icon" ',
+      'href="/a.png"></head>',
+    ]);
+
+    const html = await readHtmlHead(response, 1024 * 1024);
+
+    expect(html).toBe('<html><head><link rel="icon" href="/a.png"></head>');
+    expect(state.cancelled).toBe(true);
+    expect(state.pulled).toBeLessThanOrEqual(3);
+  });
+
+  test('should decode multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('<title>Café</title><body>');
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 11));
+        controller.enqueue(bytes.slice(11));
+        controller.close();
+      },
+    });
+
+    expect(await readHtmlHead(new Response(stream), 1024)).toBe('<title>Café</title>');
+  });
+
+  test('should return the whole document if the head never ends', async () => {
+    expect(await readHtmlHead(new Response('<html><head><link rel="icon">'), 1024)).toBe(
+      '<html><head><link rel="icon">'
+    );
+  });
+
+  test('should return the head read so far when it exceeds the limit', async () => {
+    // Every chunk ends inside a tag
+    const { response, state } = streamed([
+      '<head><link rel="icon" href="/a.png"><meta name="a" ',
+      ...Array(100).fill('content="b"><meta name="a" '),
+    ]);
+
+    const html = await readHtmlHead(response, 1024);
+
+    expect(html.startsWith('<head><link rel="icon" href="/a.png">')).toBe(true);
+    expect(html.endsWith('<meta name="a" content="b">')).toBe(true);
+    expect(state.cancelled).toBe(true);
+  });
+
+  test('should give up when no tag is complete within the limit', async () => {
+    const { response, state } = streamed([`<meta content="${'x'.repeat(2048)}`]);
+
+    await expect(readHtmlHead(response, 1024)).rejects.toThrow('Response too large');
+    expect(state.cancelled).toBe(true);
+  });
+
+  test('should decode with the charset from the Content-Type header', async () => {
+    // "иконка" in windows-1251
+    const bytes = Buffer.concat([
+      Buffer.from('<head><link rel="icon" href="/'),
+      Buffer.from([0xe8, 0xea, 0xee, 0xed, 0xea, 0xe0]),
+      Buffer.from('.png"></head>'),
+    ]);
+    const response = new Response(bytes, {
+      headers: { 'Content-Type': 'text/html; charset=windows-1251' },
+    });
+
+    expect(await readHtmlHead(response, 1024)).toBe(
+      '<head><link rel="icon" href="/иконка.png"></head>'
+    );
+  });
+
+  test('should decode with the charset from <meta charset>', async () => {
+    // "アイコン" in Shift_JIS
+    const bytes = Buffer.concat([
+      Buffer.from('<head><meta charset="Shift_JIS"><link rel="icon" href="/'),
+      Buffer.from([0x83, 0x41, 0x83, 0x43, 0x83, 0x52, 0x83, 0x93]),
+      Buffer.from('.png"></head>'),
+    ]);
+    const response = new Response(bytes, { headers: { 'Content-Type': 'text/html' } });
+
+    expect(await readHtmlHead(response, 1024)).toContain('href="/アイコン.png"');
+  });
+});
+
+describe('detectHtmlEncoding', () => {
+  const bytes = (html: string) => new TextEncoder().encode(html);
+
+  test('should prefer the byte order mark', () => {
+    const bom = new Uint8Array([0xef, 0xbb, 0xbf, ...bytes('<meta charset="gbk">')]);
+    expect(detectHtmlEncoding(bom, 'text/html; charset=windows-1251')).toBe('utf-8');
+    expect(detectHtmlEncoding(new Uint8Array([0xff, 0xfe, 0x3c, 0x00]), null)).toBe('utf-16le');
+  });
+
+  test('should use the Content-Type charset before meta tags', () => {
+    expect(detectHtmlEncoding(bytes('<meta charset="gbk">'), 'text/html; charset="EUC-KR"')).toBe(
+      'euc-kr'
+    );
+  });
+
+  test('should ignore unknown Content-Type charsets', () => {
+    expect(detectHtmlEncoding(bytes('<meta charset="gbk">'), 'text/html; charset=bogus')).toBe(
+      'gbk'
+    );
+  });
+
+  test('should sniff <meta charset> and <meta http-equiv="Content-Type">', () => {
+    expect(detectHtmlEncoding(bytes("<meta charset='Shift_JIS'>"), null)).toBe('shift_jis');
+    expect(
+      detectHtmlEncoding(
+        bytes('<meta http-equiv="Content-Type" content="text/html;charset=windows-1251">'),
+        'text/html'
+      )
+    ).toBe('windows-1251');
+  });
+
+  test('should treat UTF-16 declared in a meta tag as UTF-8', () => {
+    expect(detectHtmlEncoding(bytes('<meta charset="utf-16">'), null)).toBe('utf-8');
+  });
+
+  test('should only sniff the first 1024 bytes', () => {
+    const late = bytes(`<!--${'x'.repeat(1024)}--><meta charset="gbk">`);
+    expect(detectHtmlEncoding(late, null)).toBe('utf-8');
+  });
+
+  test('should default to UTF-8', () => {
+    expect(detectHtmlEncoding(bytes('<title>x</title>'), 'text/html')).toBe('utf-8');
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Unit tests for the redirect-following HTTP client
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import dns from 'node:dns';
+import { isConnectionError, readBody, safeFetch } from '../../src/lib/http-client';
+import { loadConfig } from '../../src/lib/config';
+
+const config = {
+  ...loadConfig(),
+  BLOCK_PRIVATE_IPS: true,
+  ALLOWED_CIDRS: [],
+  BLOCKED_CIDRS: [],
+  MAX_REDIRECTS: 3,
+};
+
+const PUBLIC_ADDRESS = '93.184.215.14';
+
+const redirect = (location: string, status = 302) =>
+  new Response(null, { status, headers: { Location: location } });
+
+interface RecordedRequest {
+  url: string; // As connected to, after pinning
+  host: string | null;
+  tls?: { serverName?: string };
+}
+
+/**
+ * Mock fetch with a fixed sequence of responses and record requested URLs
+ * Requested URLs are reported with the Host header, as they were before pinning
+ */
+function mockFetch(responses: Response[]) {
+  const requested: string[] = [];
+  const requests: RecordedRequest[] = [];
+  const spy = spyOn(globalThis, 'fetch').mockImplementation((async (
+    input: string | URL,
+    init?: RequestInit & { tls?: { serverName?: string } }
+  ) => {
+    const url = new URL(input.toString());
+    const host = new Headers(init?.headers).get('host');
+    requests.push({ url: url.toString(), host, tls: init?.tls });
+    if (host) url.host = host;
+    requested.push(url.toString());
+
+    const response = responses.shift();
+    if (!response) throw new Error('Unexpected request');
+    return response;
+  }) as typeof fetch);
+
+  return { requested, requests, spy };
+}
+
+/**
+ * Mock DNS lookups with fixed addresses per hostname (public address by default)
+ */
+function mockLookup(addresses: Record<string, string[]> = {}) {
+  return spyOn(dns.promises, 'lookup').mockImplementation((async (hostname: string) =>
+    (addresses[hostname] ?? [PUBLIC_ADDRESS]).map((address) => ({
+      address,
+      family: address.includes(':') ? 6 : 4,
+    }))) as unknown as typeof dns.promises.lookup);
+}
+
+describe('safeFetch', () => {
+  let spy: ReturnType<typeof spyOn> | null = null;
+  let lookupSpy: ReturnType<typeof spyOn> | null = null;
+
+  beforeEach(() => {
+    lookupSpy = mockLookup();
+  });
+
+  afterEach(() => {
+    spy?.mockRestore();
+    spy = null;
+    lookupSpy?.mockRestore();
+    lookupSpy = null;
+  });
+
+  test('should return the response directly when there is no redirect', async () => {
+    const mock = mockFetch([new Response('ok')]);
+    spy = mock.spy;
+
+    const result = await safeFetch('https://example.com/', config);
+
+    expect(await result.response.text()).toBe('ok');
+    expect(result.finalUrl).toBe('https://example.com/');
+    expect(result.redirectChain).toEqual([]);
+  });
+
+  test('should follow redirects and report the chain', async () => {
+    const mock = mockFetch([
+      redirect('https://www.example.com/', 301),
+      redirect('/en/', 307),
+      new Response('ok'),
+    ]);
+    spy = mock.spy;
+
+    const result = await safeFetch('https://example.com/', config);
+
+    expect(result.finalUrl).toBe('https://www.example.com/en/');
+    expect(result.redirectChain).toEqual([
+      'https://www.example.com/',
+      'https://www.example.com/en/',
+    ]);
+    expect(mock.requested).toEqual([
+      'https://example.com/',
+      'https://www.example.com/',
+      'https://www.example.com/en/',
+    ]);
+  });
+
+  test('should reject redirects to private IPs', async () => {
+    const mock = mockFetch([redirect('http://169.254.169.254/latest/meta-data/')]);
+    spy = mock.spy;
+
+    await expect(safeFetch('https://example.com/', config)).rejects.toThrow('not allowed');
+    expect(mock.requested).toEqual(['https://example.com/']);
+  });
+
+  test('should reject redirects to IPv6 loopback', async () => {
+    const mock = mockFetch([redirect('http://[::1]:8080/')]);
+    spy = mock.spy;
+
+    await expect(safeFetch('https://example.com/', config)).rejects.toThrow('not allowed');
+  });
+
+  test('should reject redirects to non-http protocols', async () => {
+    const mock = mockFetch([redirect('file:///etc/passwd')]);
+    spy = mock.spy;
+
+    await expect(safeFetch('https://example.com/', config)).rejects.toThrow('not allowed');
+  });
+
+  test('should allow private redirect targets when BLOCK_PRIVATE_IPS is disabled', async () => {
+    const mock = mockFetch([redirect('http://127.0.0.1/'), new Response('ok')]);
+    spy = mock.spy;
+
+    const result = await safeFetch('https://example.com/', { ...config, BLOCK_PRIVATE_IPS: false });
+
+    expect(result.finalUrl).toBe('http://127.0.0.1/');
+  });
+
+  test('should enforce MAX_REDIRECTS', async () => {
+    const mock = mockFetch([
+      redirect('https://example.com/1'),
+      redirect('https://example.com/2'),
+      redirect('https://example.com/3'),
+      redirect('https://example.com/4'),
+    ]);
+    spy = mock.spy;
+
+    await expect(safeFetch('https://example.com/', config)).rejects.toThrow('Too many redirects');
+    expect(mock.requested).toHaveLength(4);
+  });
+
+  test('should not follow redirects when MAX_REDIRECTS is 0', async () => {
+    const mock = mockFetch([redirect('https://example.com/1')]);
+    spy = mock.spy;
+
+    await expect(
+      safeFetch('https://example.com/', { ...config, MAX_REDIRECTS: 0 })
+    ).rejects.toThrow('Too many redirects');
+  });
+
+  test('should return 3xx responses without a Location header as-is', async () => {
+    const mock = mockFetch([new Response(null, { status: 304 })]);
+    spy = mock.spy;
+
+    const result = await safeFetch('https://example.com/', config);
+
+    expect(result.response.status).toBe(304);
+  });
+
+  describe('DNS resolution', () => {
+    test('should reject hostnames that resolve to reserved addresses', async () => {
+      lookupSpy?.mockRestore();
+      lookupSpy = mockLookup({ 'localtest.me': ['127.0.0.1'] });
+      const mock = mockFetch([]);
+      spy = mock.spy;
+
+      await expect(safeFetch('https://localtest.me/', config)).rejects.toThrow('not allowed');
+      expect(mock.requested).toEqual([]);
+    });
+
+    test('should reject hostnames if any resolved address is reserved', async () => {
+      lookupSpy?.mockRestore();
+      lookupSpy = mockLookup({ 'example.com': [PUBLIC_ADDRESS, '::ffff:10.0.0.1'] });
+      const mock = mockFetch([]);
+      spy = mock.spy;
+
+      await expect(safeFetch('https://example.com/', config)).rejects.toThrow('not allowed');
+    });
+
+    test('should check the resolved addresses of every redirect target', async () => {
+      lookupSpy?.mockRestore();
+      lookupSpy = mockLookup({ 'internal.example.com': ['100.64.0.1'] });
+      const mock = mockFetch([redirect('https://internal.example.com/')]);
+      spy = mock.spy;
+
+      await expect(safeFetch('https://example.com/', config)).rejects.toThrow('not allowed');
+      expect(mock.requested).toEqual(['https://example.com/']);
+    });
+
+    test('should reject decimal and octal IPv4 notations', async () => {
+      const mock = mockFetch([]);
+      spy = mock.spy;
+
+      await expect(safeFetch('http://2130706433/', config)).rejects.toThrow('not allowed');
+      await expect(safeFetch('http://0177.0.0.1/', config)).rejects.toThrow('not allowed');
+      await expect(safeFetch('http://0x7f.1/', config)).rejects.toThrow('not allowed');
+      expect(mock.requested).toEqual([]);
+    });
+
+    test('should pin the connection to the checked address', async () => {
+      const mock = mockFetch([new Response('ok')]);
+      spy = mock.spy;
+
+      await safeFetch('https://example.com:8443/icon.png', config);
+
+      expect(mock.requests).toEqual([
+        {
+          url: `https://${PUBLIC_ADDRESS}:8443/icon.png`,
+          host: 'example.com:8443',
+          tls: { serverName: 'example.com', checkServerIdentity: expect.any(Function) },
+        },
+      ]);
+    });
+
+    test('should prefer IPv4 addresses and bracket IPv6 addresses', async () => {
+      lookupSpy?.mockRestore();
+      lookupSpy = mockLookup({
+        'example.com': ['2606:2800:21f:cb07:6820:80da:af6b:8b2c', PUBLIC_ADDRESS],
+        'v6.example.com': ['2606:2800:21f:cb07:6820:80da:af6b:8b2c'],
+      });
+      const mock = mockFetch([new Response('ok'), new Response('ok')]);
+      spy = mock.spy;
+
+      await safeFetch('http://example.com/', config);
+      await safeFetch('http://v6.example.com/', config);
+
+      expect(mock.requests.map((request) => request.url)).toEqual([
+        `http://${PUBLIC_ADDRESS}/`,
+        'http://[2606:2800:21f:cb07:6820:80da:af6b:8b2c]/',
+      ]);
+      expect(mock.requests[0]?.tls).toBeUndefined();
+    });
+
+    test('should allow reserved addresses listed in ALLOWED_CIDRS', async () => {
+      lookupSpy?.mockRestore();
+      lookupSpy = mockLookup({ 'mirror.internal': ['10.20.0.5'] });
+      const mock = mockFetch([new Response('ok')]);
+      spy = mock.spy;
+
+      const result = await safeFetch('http://mirror.internal/', {
+        ...config,
+        ALLOWED_CIDRS: ['10.20.0.0/16'],
+      });
+
+      expect(result.finalUrl).toBe('http://mirror.internal/');
+      expect(mock.requests[0]?.url).toBe('http://10.20.0.5/');
+    });
+
+    test('should block addresses listed in BLOCKED_CIDRS', async () => {
+      const mock = mockFetch([]);
+      spy = mock.spy;
+
+      await expect(
+        safeFetch('https://example.com/', { ...config, BLOCKED_CIDRS: ['93.184.0.0/16'] })
+      ).rejects.toThrow('not allowed');
+      await expect(
+        safeFetch('https://example.com/', {
+          ...config,
+          BLOCK_PRIVATE_IPS: false,
+          BLOCKED_CIDRS: ['93.184.0.0/16'],
+        })
+      ).rejects.toThrow('not allowed');
+    });
+
+    test('should not resolve hostnames when there is nothing to check', async () => {
+      const mock = mockFetch([new Response('ok')]);
+      spy = mock.spy;
+
+      await safeFetch('https://example.com/', { ...config, BLOCK_PRIVATE_IPS: false });
+
+      expect(lookupSpy).not.toHaveBeenCalled();
+      expect(mock.requests[0]?.url).toBe('https://example.com/');
+    });
+  });
+});
+
+describe('readBody', () => {
+  /**
+   * A body that never ends, and counts how many chunks were pulled from it
+   */
+  function endlessBody(chunkSize: number) {
+    const state = { pulled: 0, cancelled: false };
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        state.pulled++;
+        controller.enqueue(new Uint8Array(chunkSize));
+      },
+      cancel() {
+        state.cancelled = true;
+      },
+    });
+    return { stream, state };
+  }
+
+  test('should read bodies within the limit', async () => {
+    const body = await readBody(new Response('hello'), 1024);
+
+    expect(body.toString()).toBe('hello');
+  });
+
+  test('should return an empty buffer for responses without a body', async () => {
+    const body = await readBody(new Response(null, { status: 204 }), 1024);
+
+    expect(body.length).toBe(0);
+  });
+
+  test('should reject a Content-Length over the limit without reading', async () => {
+    const { stream, state } = endlessBody(512);
+    const response = new Response(stream, { headers: { 'Content-Length': '999999999' } });
+
+    await expect(readBody(response, 1024)).rejects.toThrow('Response too large');
+    expect(state.cancelled).toBe(true);
+  });
+
+  test('should stop reading as soon as the limit is exceeded', async () => {
+    const { stream, state } = endlessBody(512);
+
+    await expect(readBody(new Response(stream), 1024)).rejects.toThrow('Response too large');
+    expect(state.cancelled).toBe(true);
+    expect(state.pulled).toBeLessThan(10);
+  });
+
+  test('should not trust a Content-Length under the limit', async () => {
+    const { stream } = endlessBody(512);
+    const response = new Response(stream, { headers: { 'Content-Length': '10' } });
+
+    await expect(readBody(response, 1024)).rejects.toThrow('Response too large');
+  });
+});
+
+describe('isConnectionError', () => {
+  const withCode = (code: string) => Object.assign(new TypeError('fetch failed'), { code });
+
+  test('should detect connect and TLS failures', () => {
+    expect(isConnectionError(withCode('ECONNREFUSED'))).toBe(true);
+    expect(isConnectionError(withCode('EPROTO'))).toBe(true);
+    expect(isConnectionError(withCode('DEPTH_ZERO_SELF_SIGNED_CERT'))).toBe(true);
+    expect(isConnectionError(withCode('ERR_TLS_CERT_ALTNAME_INVALID'))).toBe(true);
+    expect(isConnectionError(withCode('CERT_HAS_EXPIRED'))).toBe(true);
+  });
+
+  test('should not treat other failures as connection errors', () => {
+    expect(isConnectionError(withCode('ENOTFOUND'))).toBe(false);
+    expect(isConnectionError(new DOMException('The operation timed out.', 'TimeoutError'))).toBe(
+      false
+    );
+    expect(isConnectionError(new Error('HTTP 500'))).toBe(false);
+    expect(isConnectionError(null)).toBe(false);
+  });
+});
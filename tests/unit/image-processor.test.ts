@@ -3,7 +3,9 @@
  */
 
 import { describe, test, expect } from 'bun:test';
-import { processImage } from '../../src/lib/image-processor';
+import sharp from 'sharp';
+import { encode } from 'sharp-ico';
+import { inspectImage, processImage } from '../../src/lib/image-processor';
 
 describe('Image Processor', () => {
   describe('SVG Dimension Extraction', () => {
@@ -153,5 +155,119 @@ describe('Image Processor', () => {
       expect(result.width).toBe(128);
       expect(result.height).toBe(128);
     });
+
+    test('should render prefers-color-scheme styles for the requested theme', async () => {
+      const svg = Buffer.from(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="8" height="8">' +
+          '<style>rect { fill: #f00 } @media (prefers-color-scheme: dark) { rect { fill: #00f } }</style>' +
+          '<rect width="8" height="8"/></svg>'
+      );
+      const pixel = async (theme?: 'light' | 'dark') => {
+        const result = await processImage(svg, { format: 'png', theme });
+        return [...(await sharp(result.data).raw().toBuffer()).subarray(0, 3)];
+      };
+
+      expect(await pixel('dark')).toEqual([0, 0, 255]);
+      expect(await pixel('light')).toEqual([255, 0, 0]);
+      expect(await pixel()).toEqual([255, 0, 0]);
+    });
+  });
+
+  describe('ICO Frame Selection', () => {
+    // Each frame gets a distinct color so we can tell which one was used
+    const frame = (size: number, color: { r: number; g: number; b: number }) =>
+      sharp({ create: { width: size, height: size, channels: 4, background: color } })
+        .png()
+        .toBuffer();
+
+    const createIco = async () =>
+      encode([
+        await frame(16, { r: 255, g: 0, b: 0 }),
+        await frame(32, { r: 0, g: 255, b: 0 }),
+        await frame(64, { r: 0, g: 0, b: 255 }),
+      ]);
+
+    const topLeftPixel = async (image: Buffer) => {
+      const { data } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+      return [data[0], data[1], data[2]];
+    };
+
+    test('should use the largest frame when no size is requested', async () => {
+      const result = await processImage(await createIco(), { format: 'png' });
+
+      expect(result.width).toBe(64);
+      expect(await topLeftPixel(result.data)).toEqual([0, 0, 255]);
+    });
+
+    test('should use the smallest frame that is at least the requested size', async () => {
+      const result = await processImage(await createIco(), { size: 20, format: 'png' });
+
+      expect(result.width).toBe(20);
+      expect(await topLeftPixel(result.data)).toEqual([0, 255, 0]);
+    });
+
+    test('should use the exact frame when it exists', async () => {
+      const result = await processImage(await createIco(), { size: 16, format: 'png' });
+
+      expect(result.width).toBe(16);
+      expect(await topLeftPixel(result.data)).toEqual([255, 0, 0]);
+    });
+
+    test('should fall back to the largest frame when all frames are smaller', async () => {
+      const result = await processImage(await createIco(), { size: 128, format: 'png' });
+
+      expect(result.width).toBe(128);
+      expect(await topLeftPixel(result.data)).toEqual([0, 0, 255]);
+    });
+  });
+
+  describe('Image Inspection', () => {
+    const png = (width: number, height: number, alpha = 1) =>
+      sharp({
+        create: { width, height, channels: 4, background: { r: 10, g: 20, b: 30, alpha } },
+      })
+        .png()
+        .toBuffer();
+
+    test('should report decoded dimensions', async () => {
+      const result = await inspectImage(await png(48, 48));
+
+      expect(result).toEqual({ width: 48, height: 48, degenerate: undefined });
+    });
+
+    test('should flag 1x1 pixel images as degenerate', async () => {
+      const result = await inspectImage(await png(1, 1));
+
+      expect(result?.degenerate).toBe('1x1 pixel');
+    });
+
+    test('should flag fully transparent images as degenerate', async () => {
+      const result = await inspectImage(await png(32, 32, 0));
+
+      expect(result?.degenerate).toBe('fully transparent');
+    });
+
+    test('should flag images with extreme aspect ratios as degenerate', async () => {
+      const result = await inspectImage(await png(600, 100));
+
+      expect(result?.degenerate).toContain('extreme aspect ratio');
+    });
+
+    test('should inspect the ICO frame used for the target size', async () => {
+      const ico = encode([await png(16, 16), await png(48, 48)]);
+
+      expect((await inspectImage(ico))?.width).toBe(48);
+      expect((await inspectImage(ico, 16))?.width).toBe(16);
+    });
+
+    test('should not flag SVGs without dimensions as degenerate', async () => {
+      const result = await inspectImage(Buffer.from('<svg><circle r="10"/></svg>'));
+
+      expect(result).toEqual({ width: 0, height: 0, degenerate: undefined });
+    });
+
+    test('should return null for undecodable data', async () => {
+      expect(await inspectImage(Buffer.from('not an image'))).toBeNull();
+    });
   });
 });
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for IP range checks
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { isAddressAllowed, isReservedIp, isValidCidr } from '../../src/lib/ip-ranges';
+
+describe('IP ranges', () => {
+  describe('isReservedIp', () => {
+    test('should detect reserved IPv4 addresses', () => {
+      const reserved = [
+        '0.0.0.0',
+        '10.1.2.3',
+        '100.64.0.1',
+        '100.127.255.254',
+        '127.0.0.1',
+        '127.255.255.255',
+        '169.254.169.254',
+        '172.16.0.1',
+        '172.31.255.255',
+        '192.0.0.8',
+        '192.0.2.1',
+        '192.168.1.1',
+        '198.18.0.1',
+        '224.0.0.1',
+        '255.255.255.255',
+      ];
+
+      for (const address of reserved) {
+        expect(isReservedIp(address)).toBe(true);
+      }
+    });
+
+    test('should allow public IPv4 addresses', () => {
+      const publicAddresses = ['1.1.1.1', '8.8.8.8', '100.128.0.1', '172.32.0.1', '93.184.215.14'];
+
+      for (const address of publicAddresses) {
+        expect(isReservedIp(address)).toBe(false);
+      }
+    });
+
+    test('should detect reserved IPv6 addresses', () => {
+      const reserved = ['::', '::1', '[::1]', 'fc00::1', 'fd12:3456::1', 'fe80::1%eth0', 'ff02::1'];
+
+      for (const address of reserved) {
+        expect(isReservedIp(address)).toBe(true);
+      }
+    });
+
+    test('should check IPv4 addresses embedded in IPv6 addresses', () => {
+      expect(isReservedIp('::ffff:127.0.0.1')).toBe(true);
+      expect(isReservedIp('::ffff:7f00:1')).toBe(true);
+      expect(isReservedIp('64:ff9b::10.0.0.1')).toBe(true);
+      expect(isReservedIp('2002:c0a8:101::1')).toBe(true);
+
+      expect(isReservedIp('::ffff:8.8.8.8')).toBe(false);
+      expect(isReservedIp('2002:808:808::1')).toBe(false);
+    });
+
+    test('should allow public IPv6 addresses', () => {
+      expect(isReservedIp('2001:4860:4860::8888')).toBe(false);
+      expect(isReservedIp('2606:4700:4700::1111')).toBe(false);
+    });
+
+    test('should return false for hostnames', () => {
+      expect(isReservedIp('example.com')).toBe(false);
+      expect(isReservedIp('localhost')).toBe(false);
+    });
+  });
+
+  describe('isAddressAllowed', () => {
+    test('should block reserved addresses only when enabled', () => {
+      expect(isAddressAllowed('127.0.0.1', { blockReserved: true })).toBe(false);
+      expect(isAddressAllowed('127.0.0.1', { blockReserved: false })).toBe(true);
+      expect(isAddressAllowed('8.8.8.8', { blockReserved: true })).toBe(true);
+    });
+
+    test('should exempt allowed ranges from the reserved check', () => {
+      const policy = { blockReserved: true, allowedCidrs: ['10.20.0.0/16', 'fd00::/8'] };
+
+      expect(isAddressAllowed('10.20.1.1', policy)).toBe(true);
+      expect(isAddressAllowed('::ffff:10.20.1.1', policy)).toBe(true);
+      expect(isAddressAllowed('fd00::1', policy)).toBe(true);
+      expect(isAddressAllowed('10.21.1.1', policy)).toBe(false);
+    });
+
+    test('should always block denied ranges', () => {
+      const policy = {
+        blockReserved: false,
+        allowedCidrs: ['8.8.8.8'],
+        blockedCidrs: ['8.8.0.0/16'],
+      };
+
+      expect(isAddressAllowed('8.8.8.8', policy)).toBe(false);
+      expect(isAddressAllowed('::ffff:8.8.4.4', policy)).toBe(false);
+      expect(isAddressAllowed('1.1.1.1', policy)).toBe(true);
+    });
+
+    test('should reject anything that is not an IP address', () => {
+      expect(isAddressAllowed('example.com', { blockReserved: false })).toBe(false);
+    });
+  });
+
+  describe('isValidCidr', () => {
+    test('should accept CIDR ranges and plain addresses', () => {
+      expect(isValidCidr('10.0.0.0/8')).toBe(true);
+      expect(isValidCidr('fd00::/8')).toBe(true);
+      expect(isValidCidr('192.168.1.1')).toBe(true);
+    });
+
+    test('should reject invalid ranges', () => {
+      expect(isValidCidr('10.0.0.0/33')).toBe(false);
+      expect(isValidCidr('fd00::/129')).toBe(false);
+      expect(isValidCidr('example.com/8')).toBe(false);
+      expect(isValidCidr('10.0.0.0/abc')).toBe(false);
+    });
+  });
+});
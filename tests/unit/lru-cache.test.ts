@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the bounded LRU cache
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createLruCache } from '../../src/lib/lru-cache';
+
+describe('createLruCache', () => {
+  test('should return stored values', () => {
+    const cache = createLruCache<string>({ maxEntries: 10, maxBytes: 1000 });
+    cache.set('a', 'one', 60_000, 3);
+
+    expect(cache.get('a')).toBe('one');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.size).toBe(1);
+    expect(cache.bytes).toBe(3);
+  });
+
+  test('should evict the least recently used entry over the entry limit', () => {
+    const cache = createLruCache<number>({ maxEntries: 2, maxBytes: 1000 });
+    cache.set('a', 1, 60_000, 1);
+    cache.set('b', 2, 60_000, 1);
+    cache.get('a');
+    cache.set('c', 3, 60_000, 1);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+  });
+
+  test('should evict entries until the total size fits', () => {
+    const cache = createLruCache<number>({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', 1, 60_000, 40);
+    cache.set('b', 2, 60_000, 40);
+    cache.set('c', 3, 60_000, 50);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+    expect(cache.bytes).toBe(90);
+  });
+
+  test('should not store values larger than the byte limit', () => {
+    const cache = createLruCache<number>({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', 1, 60_000, 10);
+    cache.set('big', 2, 60_000, 101);
+
+    expect(cache.get('big')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+  });
+
+  test('should replace existing entries and their size', () => {
+    const cache = createLruCache<number>({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', 1, 60_000, 30);
+    cache.set('a', 2, 60_000, 20);
+
+    expect(cache.get('a')).toBe(2);
+    expect(cache.size).toBe(1);
+    expect(cache.bytes).toBe(20);
+  });
+
+  test('should expire entries after their TTL', async () => {
+    const cache = createLruCache<number>({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', 1, 20, 1);
+    cache.set('b', 2, 60_000, 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+    expect(cache.bytes).toBe(1);
+  });
+
+  test('should not store entries with a TTL of 0', () => {
+    const cache = createLruCache<number>({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', 1, 0, 1);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  test('should delete and clear entries', () => {
+    const cache = createLruCache<number>({ maxEntries: 10, maxBytes: 100 });
+    cache.set('a', 1, 60_000, 5);
+    cache.set('b', 2, 60_000, 5);
+
+    cache.delete('a');
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.bytes).toBe(5);
+
+    cache.clear();
+    expect(cache.size).toBe(0);
+    expect(cache.bytes).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for Safari mask icons
+ */
+
+import { describe, test, expect } from 'bun:test';
+import sharp from 'sharp';
+import { fillMaskIcon, parseIconColor } from '../../src/lib/mask-icon';
+import { processImage } from '../../src/lib/image-processor';
+
+// Left half filled, right half transparent
+const MASK_SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><path d="M0 0h8v16H0z"/></svg>';
+
+describe('parseIconColor', () => {
+  test('should accept CSS colors', () => {
+    expect(parseIconColor('#5bbad5')).toBe('#5bbad5');
+    expect(parseIconColor(' #FFF ')).toBe('#FFF');
+    expect(parseIconColor('teal')).toBe('teal');
+    expect(parseIconColor('rgb(91, 186, 213)')).toBe('rgb(91, 186, 213)');
+  });
+
+  test('should reject anything that could break out of the attribute', () => {
+    expect(parseIconColor(undefined)).toBeUndefined();
+    expect(parseIconColor('')).toBeUndefined();
+    expect(parseIconColor('#12345')).toBeUndefined();
+    expect(parseIconColor('red"/><script>alert(1)</script>')).toBeUndefined();
+    expect(parseIconColor('url(#x)')).toBeUndefined();
+  });
+});
+
+describe('fillMaskIcon', () => {
+  test('should wrap the content in a color filter', () => {
+    const filled = fillMaskIcon(MASK_SVG, '#5bbad5');
+
+    expect(filled).toContain('flood-color="#5bbad5"');
+    expect(filled).toMatch(/<g filter="url\(#[^)]+\)"><path d="M0 0h8v16H0z"\/><\/g><\/svg>$/);
+  });
+
+  test('should leave documents without an svg root unchanged', () => {
+    expect(fillMaskIcon('<html></html>', '#000')).toBe('<html></html>');
+  });
+
+  test('should render filled with the color when rasterized', async () => {
+    const result = await processImage(Buffer.from(MASK_SVG), {
+      format: 'png',
+      size: 16,
+      maskColor: '#5bbad5',
+    });
+    const pixels = await sharp(result.data).raw().toBuffer();
+
+    expect([...pixels.subarray(0, 4)]).toEqual([91, 186, 213, 255]);
+    expect(pixels[15 * 4 + 3]).toBe(0);
+  });
+
+  test('should serve SVGs filled with the color', async () => {
+    const result = await processImage(Buffer.from(MASK_SVG), { maskColor: 'teal' });
+
+    expect(result.format).toBe('svg');
+    expect(result.data.toString()).toContain('flood-color="teal"');
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Unit tests for meta refresh parsing
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { parseMetaRefresh } from '../../src/lib/favicon-finder';
+
+describe('parseMetaRefresh', () => {
+  test('should extract the target URL', () => {
+    expect(parseMetaRefresh('0; url=https://example.com/')).toBe('https://example.com/');
+    expect(parseMetaRefresh('0;URL=/home')).toBe('/home');
+    expect(parseMetaRefresh('5, url = /later')).toBe('/later');
+    expect(parseMetaRefresh('url=/no-delay')).toBe('/no-delay');
+    expect(parseMetaRefresh('0; /without-url-prefix')).toBe('/without-url-prefix');
+  });
+
+  test('should strip quotes around the URL', () => {
+    expect(parseMetaRefresh("0; url='/quoted'")).toBe('/quoted');
+    expect(parseMetaRefresh('0; url="/double" trailing')).toBe('/double');
+  });
+
+  test('should return undefined for plain reloads', () => {
+    expect(parseMetaRefresh('30')).toBeUndefined();
+    expect(parseMetaRefresh('0;')).toBeUndefined();
+    expect(parseMetaRefresh("0; url=''")).toBeUndefined();
+  });
+});
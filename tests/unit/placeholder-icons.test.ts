@@ -0,0 +1,107 @@
+/**
+ * Unit tests for placeholder icon detection
+ */
+
+import { describe, test, expect } from 'bun:test';
+import sharp from 'sharp';
+import { encode } from 'sharp-ico';
+import { computeImageHash } from '../../src/lib/image-processor';
+import { findPlaceholder, parsePlaceholderIcon } from '../../src/lib/placeholder-icons';
+
+// Grayscale image with a horizontal gradient, light on the left
+const gradient = (size: number) => {
+  const pixels = Buffer.alloc(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      pixels[y * size + x] = 255 - Math.round((x / size) * 255);
+    }
+  }
+  return sharp(pixels, { raw: { width: size, height: size, channels: 1 } });
+};
+
+// Grayscale checkerboard of 4x4 cells
+const checkerboard = (size: number) => {
+  const pixels = Buffer.alloc(size * size);
+  const cell = size / 4;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      pixels[y * size + x] = (Math.floor(x / cell) + Math.floor(y / cell)) % 2 ? 255 : 0;
+    }
+  }
+  return sharp(pixels, { raw: { width: size, height: size, channels: 1 } });
+};
+
+describe('computeImageHash', () => {
+  test('should return a 16 character hex hash', async () => {
+    const hash = await computeImageHash(await gradient(64).png().toBuffer());
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  test('should give rescaled and recompressed copies a matching hash', async () => {
+    const original = await computeImageHash(await gradient(64).png().toBuffer());
+    const small = await computeImageHash(await gradient(16).jpeg({ quality: 60 }).toBuffer());
+
+    expect(
+      findPlaceholder(small ?? '', [{ name: 'gradient', hash: original ?? '' }])
+    ).not.toBeNull();
+  });
+
+  test('should hash the largest frame of ICO files', async () => {
+    const png = await computeImageHash(await checkerboard(64).png().toBuffer());
+    const ico = Buffer.from(
+      encode([
+        await checkerboard(16).ensureAlpha().png().toBuffer(),
+        await checkerboard(64).ensureAlpha().png().toBuffer(),
+      ])
+    );
+
+    expect(await computeImageHash(ico)).toBe(png);
+  });
+
+  test('should return null for undecodable data', async () => {
+    expect(await computeImageHash(Buffer.from('not an image'))).toBeNull();
+  });
+});
+
+describe('parsePlaceholderIcon', () => {
+  test('should parse name=hash entries', () => {
+    expect(parsePlaceholderIcon('globe=00FF00FF00FF00FF')).toEqual({
+      name: 'globe',
+      hash: '00ff00ff00ff00ff',
+    });
+  });
+
+  test('should default the name for bare hashes', () => {
+    expect(parsePlaceholderIcon('00ff00ff00ff00ff')).toEqual({
+      name: 'custom',
+      hash: '00ff00ff00ff00ff',
+    });
+  });
+
+  test('should reject invalid hashes', () => {
+    expect(parsePlaceholderIcon('globe=00ff')).toBeNull();
+    expect(parsePlaceholderIcon('globe=zzzzzzzzzzzzzzzz')).toBeNull();
+    expect(parsePlaceholderIcon('=00ff00ff00ff00ff')).toBeNull();
+  });
+});
+
+describe('findPlaceholder', () => {
+  const placeholders = [{ name: 'globe', hash: '00ff00ff00ff00ff' }];
+
+  test('should match hashes within a few bits', () => {
+    expect(findPlaceholder('00ff00ff00ff00fc', placeholders)?.name).toBe('globe');
+  });
+
+  test('should not match distant hashes', () => {
+    expect(findPlaceholder('ff00ff00ff00ff00', placeholders)).toBeNull();
+  });
+
+  test('should not match visually different images', async () => {
+    const gradientHash = await computeImageHash(await gradient(64).png().toBuffer());
+    const checkerboardHash = await computeImageHash(await checkerboard(64).png().toBuffer());
+
+    expect(
+      findPlaceholder(checkerboardHash ?? '', [{ name: 'gradient', hash: gradientHash ?? '' }])
+    ).toBeNull();
+  });
+});
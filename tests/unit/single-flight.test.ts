@@ -0,0 +1,65 @@
+/**
+ * Unit tests for single-flight request coalescing
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createSingleFlight } from '../../src/lib/single-flight';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('createSingleFlight', () => {
+  test('should share one run between concurrent calls with the same key', async () => {
+    const flight = createSingleFlight<number>();
+    let runs = 0;
+    const run = async () => {
+      runs++;
+      await delay(10);
+      return 42;
+    };
+
+    const results = await Promise.all([flight('a', run), flight('a', run), flight('a', run)]);
+
+    expect(results).toEqual([42, 42, 42]);
+    expect(runs).toBe(1);
+  });
+
+  test('should run separately for different keys', async () => {
+    const flight = createSingleFlight<string>();
+    let runs = 0;
+    const run = (value: string) => async () => {
+      runs++;
+      await delay(10);
+      return value;
+    };
+
+    const results = await Promise.all([flight('a', run('a')), flight('b', run('b'))]);
+
+    expect(results).toEqual(['a', 'b']);
+    expect(runs).toBe(2);
+  });
+
+  test('should run again once the previous run has settled', async () => {
+    const flight = createSingleFlight<number>();
+    let runs = 0;
+    const run = async () => ++runs;
+
+    expect(await flight('a', run)).toBe(1);
+    expect(await flight('a', run)).toBe(2);
+  });
+
+  test('should share rejections and release the key afterwards', async () => {
+    const flight = createSingleFlight<number>();
+    const failing = async () => {
+      await delay(10);
+      throw new Error('Lookup failed');
+    };
+
+    const first = flight('a', failing);
+    const second = flight('a', async () => 1);
+
+    await expect(first).rejects.toThrow('Lookup failed');
+    await expect(second).rejects.toThrow('Lookup failed');
+
+    expect(await flight('a', async () => 1)).toBe(1);
+  });
+});
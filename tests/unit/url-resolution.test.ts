@@ -0,0 +1,105 @@
+/**
+ * Unit tests for favicon URL resolution
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as cheerio from 'cheerio';
+import { getDocumentBaseUrl, resolveUrl } from '../../src/lib/favicon-finder';
+
+describe('URL Resolution', () => {
+  describe('resolveUrl', () => {
+    const page = 'https://example.com/blog/post.html?id=1#top';
+
+    test('should keep absolute URLs', () => {
+      expect(resolveUrl('https://cdn.example.com/icon.png', page)).toBe(
+        'https://cdn.example.com/icon.png'
+      );
+    });
+
+    test('should resolve path-relative hrefs against the document path', () => {
+      expect(resolveUrl('icons/fav.png', page)).toBe('https://example.com/blog/icons/fav.png');
+      expect(resolveUrl('./fav.png', page)).toBe('https://example.com/blog/fav.png');
+      expect(resolveUrl('../fav.png', page)).toBe('https://example.com/fav.png');
+    });
+
+    test('should resolve root-relative hrefs against the origin', () => {
+      expect(resolveUrl('/favicon.ico', page)).toBe('https://example.com/favicon.ico');
+    });
+
+    test('should keep the scheme of the document for protocol-relative hrefs', () => {
+      expect(resolveUrl('//cdn.example.com/icon.png', 'http://example.com/')).toBe(
+        'http://cdn.example.com/icon.png'
+      );
+      expect(resolveUrl('//cdn.example.com/icon.png', page)).toBe(
+        'https://cdn.example.com/icon.png'
+      );
+    });
+
+    test('should keep the port of the base URL', () => {
+      expect(resolveUrl('icon.png', 'http://localhost:3000/app/')).toBe(
+        'http://localhost:3000/app/icon.png'
+      );
+    });
+
+    test('should resolve query-only hrefs against the document URL', () => {
+      expect(resolveUrl('?v=2', page)).toBe('https://example.com/blog/post.html?v=2');
+    });
+
+    test('should trim whitespace around hrefs', () => {
+      expect(resolveUrl('  /favicon.ico\n', page)).toBe('https://example.com/favicon.ico');
+    });
+
+    test('should keep data URLs as-is', () => {
+      const dataUrl = 'data:image/png;base64,iVBORw0KGgo=';
+      expect(resolveUrl(dataUrl, page)).toBe(dataUrl);
+    });
+
+    test('should drop non-http URLs', () => {
+      expect(resolveUrl('javascript:alert(1)', page)).toBeUndefined();
+      expect(resolveUrl('ftp://example.com/icon.png', page)).toBeUndefined();
+    });
+
+    test('should drop hrefs that cannot be resolved', () => {
+      expect(resolveUrl('http://exa mple.com/icon.png', page)).toBeUndefined();
+    });
+  });
+
+  describe('getDocumentBaseUrl', () => {
+    const page = 'https://example.com/blog/post.html';
+
+    test('should use the document URL without a <base> element', () => {
+      const $ = cheerio.load('<head><link rel="icon" href="icon.png"></head>');
+
+      expect(getDocumentBaseUrl($, page)).toBe(page);
+    });
+
+    test('should use an absolute <base href>', () => {
+      const $ = cheerio.load('<head><base href="https://static.example.com/assets/"></head>');
+
+      expect(getDocumentBaseUrl($, page)).toBe('https://static.example.com/assets/');
+      expect(resolveUrl('icon.png', getDocumentBaseUrl($, page))).toBe(
+        'https://static.example.com/assets/icon.png'
+      );
+    });
+
+    test('should resolve a relative <base href> against the document URL', () => {
+      const $ = cheerio.load('<head><base href="/static/"></head>');
+
+      expect(getDocumentBaseUrl($, page)).toBe('https://example.com/static/');
+    });
+
+    test('should use the first <base> element with an href', () => {
+      const $ = cheerio.load(
+        '<head><base target="_blank"><base href="/first/"><base href="/second/"></head>'
+      );
+
+      expect(getDocumentBaseUrl($, page)).toBe('https://example.com/first/');
+    });
+
+    test('should ignore a <base href> that is not http(s)', () => {
+      const $ = cheerio.load('<head><base href="javascript:void(0)"></head>');
+
+      expect(getDocumentBaseUrl($, page)).toBe(page);
+    });
+  });
+});